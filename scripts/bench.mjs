@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+// Synthetic fixture generator + summary benchmark.
+//
+//   npm run bench -- --files 50000
+//   npm run bench -- --files 2000 --verify
+//   npm run bench -- --files 5000 --write /tmp/wb-fixture   # then: whobreaks /tmp/wb-fixture
+import { mkdirSync, writeFileSync } from 'node:fs';
+import * as path from 'node:path';
+import { createGraph, addNode, getSummary, getImpact } from '../dist/graph.js';
+
+function parseFlags(argv) {
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) { flags[argv[i].slice(2)] = next; i++; }
+    else flags[argv[i].slice(2)] = true;
+  }
+  return flags;
+}
+
+// Deterministic PRNG so runs are comparable.
+function mulberry32(seed) {
+  return () => {
+    seed |= 0; seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateFixture(fileCount, { importsPerFile, cycleRatio, seed }) {
+  const random = mulberry32(seed);
+  const files = [];
+  for (let i = 0; i < fileCount; i++) {
+    const dir = `pkg${i % 50}/mod${Math.floor(i / 50) % 40}`;
+    files.push({ rel: `${dir}/file${i}.ts`, imports: [] });
+  }
+
+  for (let i = 1; i < fileCount; i++) {
+    const count = Math.floor(random() * importsPerFile * 2);
+    const targets = new Set();
+    for (let k = 0; k < count; k++) {
+      // Mostly import nearby lower-indexed files (layering), sometimes a shared core file.
+      const j = random() < 0.1
+        ? Math.floor(random() * Math.min(i, 200))
+        : Math.max(0, i - 1 - Math.floor(random() * 500));
+      if (j !== i) targets.add(j);
+    }
+    if (random() < cycleRatio) {
+      const j = Math.min(fileCount - 1, i + 1 + Math.floor(random() * 20));
+      if (j !== i) targets.add(j);
+    }
+    files[i].imports = Array.from(targets);
+  }
+
+  return files;
+}
+
+function buildGraph(root, files) {
+  const graph = createGraph(root);
+  files.forEach((f, i) => {
+    const abs = path.join(root, f.rel);
+    addNode(graph, {
+      path: abs,
+      relativePath: f.rel,
+      imports: f.imports.map((j, line) => ({
+        source: abs,
+        target: path.join(root, files[j].rel),
+        rawSpecifier: `./file${j}`,
+        symbols: [`value${j}`],
+        isTypeOnly: false,
+        isDynamic: false,
+        line: line + 1,
+      })),
+      exports: [{ name: `value${i}`, kind: 'variable', line: f.imports.length + 1, isReExport: false }],
+      lastModified: 0,
+      hash: String(i),
+      sizeBytes: 0,
+      linesOfCode: f.imports.length + 1,
+    });
+  });
+  return graph;
+}
+
+function writeFixture(dir, files) {
+  files.forEach((f, i) => {
+    const abs = path.join(dir, f.rel);
+    mkdirSync(path.dirname(abs), { recursive: true });
+    const from = path.dirname(f.rel);
+    const lines = f.imports.map((j) => {
+      let spec = path.relative(from, files[j].rel.replace(/\.ts$/, '')).split(path.sep).join('/');
+      if (!spec.startsWith('.')) spec = './' + spec;
+      return `import { value${j} } from '${spec}';`;
+    });
+    lines.push(`export const value${i} = ${f.imports.map((j) => `value${j}`).join(' + ') || '0'};`);
+    writeFileSync(abs, lines.join('\n') + '\n');
+  });
+}
+
+const flags = parseFlags(process.argv.slice(2));
+const fileCount = parseInt(flags.files ?? '50000', 10);
+const files = generateFixture(fileCount, {
+  importsPerFile: parseFloat(flags.imports ?? '5'),
+  cycleRatio: parseFloat(flags.cycles ?? '0.01'),
+  seed: parseInt(flags.seed ?? '42', 10),
+});
+
+if (flags.write) {
+  const dir = path.resolve(flags.write);
+  writeFixture(dir, files);
+  process.stdout.write(`Wrote ${fileCount} files to ${dir}\n`);
+  process.exit(0);
+}
+
+let t = Date.now();
+const graph = buildGraph('/bench', files);
+const buildMs = Date.now() - t;
+
+t = Date.now();
+const summary = getSummary(graph);
+const summaryMs = Date.now() - t;
+
+process.stdout.write([
+  `files:            ${summary.totalFiles}`,
+  `edges:            ${summary.totalEdges}`,
+  `tangles:          ${summary.circularDependencies.length} (largest ${summary.circularDependencies[0]?.size ?? 0} files)`,
+  `max depth:        ${summary.maxDepth}`,
+  `avg depth:        ${summary.avgDepth.toFixed(1)}`,
+  `high-impact:      ${summary.highImpactFiles.length}`,
+  `graph build:      ${buildMs}ms`,
+  `getSummary:       ${summaryMs}ms`,
+  `heap used:        ${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`,
+  '',
+].join('\n'));
+
+if (flags.verify) {
+  const counts = new Map(summary.highImpactFiles.map((h) => [h.path, h.affectedCount]));
+  let mismatches = 0;
+  for (const filePath of graph.nodes.keys()) {
+    const expected = getImpact(graph, filePath).totalAffected;
+    const actual = counts.get(filePath) ?? 0;
+    if ((expected >= 10 || actual > 0) && expected !== actual) mismatches++;
+  }
+  process.stdout.write(`verify:           ${mismatches === 0 ? 'ok' : `${mismatches} mismatches`}\n`);
+  if (mismatches > 0) process.exitCode = 1;
+}
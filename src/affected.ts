@@ -0,0 +1,66 @@
+import type { DependencyGraph, AffectedFile, AffectedTests } from './types.js';
+import { DEFAULT_TEST_PATTERNS } from './config.js';
+import { matchesGlob, toPosixRelative } from './glob.js';
+import { findImporters } from './graph.js';
+
+function reExportDependents(graph: DependencyGraph): Map<string, Set<string>> {
+  const barrels = new Map<string, Set<string>>();
+  for (const node of graph.nodes.values()) {
+    for (const exp of node.exports) {
+      if (!exp.reExportTarget || !graph.nodes.has(exp.reExportTarget)) continue;
+      let set = barrels.get(exp.reExportTarget);
+      if (!set) {
+        set = new Set();
+        barrels.set(exp.reExportTarget, set);
+      }
+      set.add(node.path);
+    }
+  }
+  return barrels;
+}
+
+export function findAffectedTests(
+  graph: DependencyGraph,
+  changedFiles: string[],
+  testPatterns: string[] = DEFAULT_TEST_PATTERNS
+): AffectedTests {
+  const changed = changedFiles.filter((f) => graph.nodes.has(f));
+  const unanalyzedFiles = changedFiles.filter((f) => !graph.nodes.has(f));
+  const isTest = (file: string) => matchesGlob(toPosixRelative(graph.projectRoot, file), testPatterns);
+  const barrels = reExportDependents(graph);
+
+  const tests = new Map<string, AffectedFile>();
+  for (const file of changedFiles) {
+    const distances = new Map<string, number>([[file, 0]]);
+    let frontier = [file];
+
+    for (let distance = 1; frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const dep of [...findImporters(graph, current), ...(barrels.get(current) ?? [])]) {
+          if (distances.has(dep)) continue;
+          distances.set(dep, distance);
+          next.push(dep);
+        }
+      }
+      frontier = next;
+    }
+
+    for (const [dep, distance] of distances) {
+      if (!isTest(dep) || !graph.nodes.has(dep)) continue;
+      const entry = tests.get(dep);
+      if (!entry) {
+        tests.set(dep, { file: dep, distance, changedBy: [file] });
+        continue;
+      }
+      entry.changedBy.push(file);
+      if (distance < entry.distance) entry.distance = distance;
+    }
+  }
+
+  return {
+    changedFiles: changed,
+    unanalyzedFiles,
+    tests: Array.from(tests.values()).sort((a, b) => a.file.localeCompare(b.file)),
+  };
+}
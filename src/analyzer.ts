@@ -1,92 +1,49 @@
 import { createHash } from 'node:crypto';
-import { statSync, readFileSync, existsSync, readdirSync } from 'node:fs';
+import { statSync, readFileSync, existsSync } from 'node:fs';
+import { builtinModules } from 'node:module';
+import * as os from 'node:os';
 import * as path from 'node:path';
+import { Worker } from 'node:worker_threads';
 import type { FileNode, ImportEdge, ExportInfo, ExportKind } from './types.js';
-
-export interface PathAliases {
-  [prefix: string]: string[];
-}
-
-export function loadPathAliases(projectRoot: string): PathAliases {
-  const result: PathAliases = { _baseUrl: [projectRoot] };
-
-  const tsconfigPath = path.join(projectRoot, 'tsconfig.json');
-  try {
-    const raw = readFileSync(tsconfigPath, 'utf-8');
-    const json = JSON.parse(raw.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, ''));
-    const baseUrl = json.compilerOptions?.baseUrl
-      ? path.resolve(projectRoot, json.compilerOptions.baseUrl)
-      : projectRoot;
-    result['_baseUrl'] = [baseUrl];
-    for (const [alias, targets] of Object.entries(json.compilerOptions?.paths ?? {})) {
-      result[alias] = (targets as string[]).map((t) => path.resolve(baseUrl, t));
-    }
-  } catch {}
-
-  loadWorkspaceAliases(projectRoot, result);
-
-  return result;
+import type { ScanCache } from './cache.js';
+import { loadWorkspace, resolveWorkspaceSpecifier, workspacePackageName, type Workspace } from './packages.js';
+import { loadTsConfigProjects, findOwningProject, type PathMapping, type TsConfigProject } from './tsconfig.js';
+import { loadCodeOwners, findOwners, type CodeOwners } from './owners.js';
+
+export interface ResolverContext {
+  projectRoot: string;
+  projects: TsConfigProject[];
+  workspace: Workspace;
+  owners: Map<string, TsConfigProject | null>;
+  codeOwners: CodeOwners;
 }
 
-function findPackageEntry(dir: string): string | undefined {
-  const candidates = [
-    'src/index.ts', 'src/index.tsx', 'src/index.js',
-    'index.ts', 'index.tsx', 'index.js',
-  ];
-  for (const c of candidates) {
-    const full = path.join(dir, c);
-    if (existsSync(full)) return full;
-  }
-  return undefined;
+export function loadResolverContext(projectRoot: string): ResolverContext {
+  return {
+    projectRoot,
+    projects: loadTsConfigProjects(projectRoot),
+    workspace: loadWorkspace(projectRoot),
+    owners: new Map(),
+    codeOwners: loadCodeOwners(projectRoot),
+  };
 }
 
-function loadWorkspaceAliases(projectRoot: string, result: PathAliases): void {
-  const rootPkg = path.join(projectRoot, 'package.json');
-  let workspaceGlobs: string[] = [];
-  try {
-    const d = JSON.parse(readFileSync(rootPkg, 'utf-8'));
-    const ws = d.workspaces;
-    if (Array.isArray(ws)) workspaceGlobs = ws;
-    else if (Array.isArray(ws?.packages)) workspaceGlobs = ws.packages;
-  } catch { return; }
-
-  const expandedDirs: string[] = [];
-  for (const pattern of workspaceGlobs) {
-    if (pattern.endsWith('/*')) {
-      const parent = path.join(projectRoot, pattern.slice(0, -2));
-      try {
-        for (const entry of readdirSync(parent, { withFileTypes: true })) {
-          if (entry.isDirectory()) expandedDirs.push(path.join(parent, entry.name));
-        }
-      } catch {}
-    } else {
-      expandedDirs.push(path.join(projectRoot, pattern));
-    }
-  }
-
-  for (const dir of expandedDirs) {
-    const pkgPath = path.join(dir, 'package.json');
-    try {
-      const d = JSON.parse(readFileSync(pkgPath, 'utf-8'));
-      const name = d.name;
-      if (!name) continue;
-
-      const entryPoint = findPackageEntry(dir);
-      if (entryPoint) {
-        result[name] = [entryPoint];
-        result[name + '/*'] = [path.join(dir, '*')];
-      }
-    } catch {}
+export function findTsConfigProject(resolver: ResolverContext, filePath: string): TsConfigProject | null {
+  let project = resolver.owners.get(filePath);
+  if (project === undefined) {
+    project = findOwningProject(resolver.projects, resolver.projectRoot, filePath) ?? null;
+    resolver.owners.set(filePath, project);
   }
+  return project;
 }
 
 const EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
 
-function hashContent(content: string): string {
+export function hashContent(content: string): string {
   return createHash('sha256').update(content).digest('hex').slice(0, 16);
 }
 
-function countLines(content: string): number {
+export function countLines(content: string): number {
   let count = 1;
   for (let i = 0; i < content.length; i++) {
     if (content.charCodeAt(i) === 10) count++;
@@ -94,63 +51,162 @@ function countLines(content: string): number {
   return count;
 }
 
-function resolveTarget(
+function matchPaths(specifier: string, paths: PathMapping[]): string[] {
+  let best: PathMapping | undefined;
+  let bestPrefix = -1;
+  for (const mapping of paths) {
+    const star = mapping.pattern.indexOf('*');
+    if (star === -1) {
+      if (mapping.pattern === specifier) return mapping.targets;
+      continue;
+    }
+    const prefix = mapping.pattern.slice(0, star);
+    const suffix = mapping.pattern.slice(star + 1);
+    if (
+      star > bestPrefix &&
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      best = mapping;
+      bestPrefix = star;
+    }
+  }
+  if (!best) return [];
+
+  const suffixLength = best.pattern.length - bestPrefix - 1;
+  const wildcard = specifier.slice(bestPrefix, specifier.length - suffixLength);
+  return best.targets.map((t) => t.replace('*', wildcard));
+}
+
+export interface Resolution {
+  target: string;
+  unresolved?: ImportEdge['unresolved'];
+  external?: string;
+  workspacePackage?: string;
+}
+
+export function resolveImport(
   specifier: string,
-  sourceDir: string,
-  aliases: PathAliases,
+  sourceFile: string,
+  resolver: ResolverContext,
   knownFiles: Set<string>
-): string {
+): Resolution {
+  const project = findTsConfigProject(resolver, sourceFile);
+  const suffixes = project?.moduleSuffixes ?? [''];
+  const sourceDir = path.dirname(sourceFile);
+
   if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
-    const baseUrl = aliases['_baseUrl']?.[0];
+    const workspacePackage = workspacePackageName(specifier, resolver.workspace);
+    const found = (target: string): Resolution => (workspacePackage ? { target, workspacePackage } : { target });
+
+    const aliasTargets = matchPaths(specifier, project?.paths ?? []);
+    for (const candidate of aliasTargets) {
+      const resolved = tryResolveFs(candidate, knownFiles, suffixes);
+      if (resolved) return found(resolved);
+    }
+
+    const baseUrl = project ? project.baseUrl : resolver.projectRoot;
     if (baseUrl) {
-      const candidate = tryResolveFs(path.resolve(baseUrl, specifier), knownFiles);
-      if (candidate) return candidate;
+      const resolved = tryResolveFs(path.resolve(baseUrl, specifier), knownFiles, suffixes);
+      if (resolved) return found(resolved);
     }
 
-    for (const alias in aliases) {
-      if (alias === '_baseUrl') continue;
-      const pattern = alias.endsWith('*') ? alias.slice(0, -1) : alias;
-      if (specifier.startsWith(pattern)) {
-        const rest = specifier.slice(pattern.length);
-        const targets = aliases[alias];
-        for (let i = 0; i < targets.length; i++) {
-          const t = targets[i];
-          const resolved = tryResolveFs((t.endsWith('*') ? t.slice(0, -1) : t) + rest, knownFiles);
-          if (resolved) return resolved;
-        }
-      }
+    const packageTargets = resolveWorkspaceSpecifier(specifier, sourceDir, resolver.workspace);
+    for (const candidate of packageTargets) {
+      const resolved = tryResolveFs(candidate, knownFiles);
+      if (resolved) return found(resolved);
     }
 
-    return '';
+    if (packageTargets.length === 0 && !specifier.startsWith('#')) {
+      // Like TypeScript, fall back to node_modules when no paths candidate exists.
+      const external = externalPackageName(specifier, baseUrl);
+      if (aliasTargets.length === 0) return external ? { target: '', external } : { target: '' };
+      if (external && isInstalled(external, sourceDir)) return { target: '', external };
+    }
+    const onDisk = [...aliasTargets, ...packageTargets].some(existsOnDisk);
+    return onDisk ? { target: '' } : { target: '', unresolved: 'unmatched-alias' };
   }
 
   const base = path.resolve(sourceDir, specifier);
-  return tryResolveFs(base, knownFiles) ?? base;
+  const resolved = tryResolveFs(base, knownFiles, suffixes);
+  if (resolved) return { target: resolved };
+
+  for (const rootDir of project?.rootDirs ?? []) {
+    if (!base.startsWith(rootDir + path.sep)) continue;
+    const rest = base.slice(rootDir.length);
+    for (const other of project!.rootDirs) {
+      if (other === rootDir) continue;
+      const viaRoot = tryResolveFs(other + rest, knownFiles, suffixes);
+      if (viaRoot) return { target: viaRoot };
+    }
+  }
+
+  return existsOnDisk(base) ? { target: base } : { target: base, unresolved: 'missing-file' };
+}
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+function externalPackageName(specifier: string, baseUrl: string | null): string | undefined {
+  if (specifier.includes(':')) return undefined;
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  if (BUILTIN_MODULES.has(name) || BUILTIN_MODULES.has(specifier)) return undefined;
+  if (baseUrl && existsSync(path.join(baseUrl, segments[0]))) return undefined;
+  return name;
+}
+
+const installedPackages = new Map<string, boolean>();
+
+function isInstalled(name: string, fromDir: string): boolean {
+  const key = fromDir + '\0' + name;
+  let installed = installedPackages.get(key);
+  if (installed === undefined) {
+    installed = existsSync(path.join(fromDir, 'node_modules', name)) ||
+      (path.dirname(fromDir) !== fromDir && isInstalled(name, path.dirname(fromDir)));
+    installedPackages.set(key, installed);
+  }
+  return installed;
+}
+
+function existsOnDisk(candidate: string): boolean {
+  return existsSync(candidate.replace(/\?.*$/, ''));
+}
+
+function resolveTarget(
+  specifier: string,
+  sourceFile: string,
+  resolver: ResolverContext,
+  knownFiles: Set<string>
+): string {
+  return resolveImport(specifier, sourceFile, resolver, knownFiles).target;
 }
 
 const JS_TO_TS: Record<string, string> = {
   '.js': '.ts', '.jsx': '.tsx', '.mjs': '.mts', '.cjs': '.cts',
 };
 
-function tryResolveFs(base: string, knownFiles: Set<string>): string | undefined {
+function tryResolveFs(base: string, knownFiles: Set<string>, suffixes: string[] = ['']): string | undefined {
   if (knownFiles.has(base)) return base;
 
   const baseExt = path.extname(base);
-  if (baseExt) {
-    const tsExt = JS_TO_TS[baseExt];
-    if (tsExt) {
-      const c = base.slice(0, -baseExt.length) + tsExt;
-      if (knownFiles.has(c)) return c;
+  for (const suffix of suffixes) {
+    if (baseExt) {
+      const tsExt = JS_TO_TS[baseExt];
+      if (tsExt) {
+        const c = base.slice(0, -baseExt.length) + suffix + tsExt;
+        if (knownFiles.has(c)) return c;
+      }
     }
-  }
 
-  for (let i = 0; i < EXTENSIONS.length; i++) {
-    const c = base + EXTENSIONS[i];
-    if (knownFiles.has(c)) return c;
-  }
-  for (let i = 0; i < EXTENSIONS.length; i++) {
-    const c = base + '/index' + EXTENSIONS[i];
-    if (knownFiles.has(c)) return c;
+    for (let i = 0; i < EXTENSIONS.length; i++) {
+      const c = base + suffix + EXTENSIONS[i];
+      if (knownFiles.has(c)) return c;
+    }
+    for (let i = 0; i < EXTENSIONS.length; i++) {
+      const c = base + '/index' + suffix + EXTENSIONS[i];
+      if (knownFiles.has(c)) return c;
+    }
   }
   return undefined;
 }
@@ -216,27 +272,135 @@ const SIDE_EFFECT_IMPORT_RE = /(?:^|;|\})\s*import\s+['"]([^'"]+)['"]/gm;
 const DYNAMIC_IMPORT_RE = /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
 
 const EXPORT_NAMED_RE =
-  /^\s*export\s+(?:(type)\s+)?(?:(default)\s+)?(function\*?|class|interface|type|enum|const|let|var|abstract\s+class|declare\s+\w+\s+)?\s*(\*\s+as\s+[\w$]+\s+from\s+['"][^'"]+['"]|[\w$]+)?/gm;
+  /(?:^|;)\s*export\s+(?:(type)\s+)?(?:(default)\s+)?((?:async\s+)?function\*?|class|interface|type|const\s+enum|enum|const|let|var|abstract\s+class|namespace|module|declare\s+(?:const\s+enum|\w+)\s+)?\s*(\*\s+as\s+[\w$]+\s+from\s+['"][^'"]+['"]|[\w$]+)?/gm;
+
+const EXPORT_LIST_RE =
+  /(?:^|;)\s*export\s+(?:type\s+)?\{([^}]*)\}(?!\s*from\b)/gm;
 
 const EXPORT_FROM_RE =
-  /^\s*export\s+(?:type\s+)?\{([^}]*)\}\s+from\s+['"]([^'"]+)['"]/gm;
+  /(?:^|;)\s*export\s+(?:type\s+)?\{([^}]*)\}\s+from\s+['"]([^'"]+)['"]/gm;
 
 const EXPORT_STAR_RE =
-  /^\s*export\s+\*\s+(?:as\s+[\w$]+\s+)?from\s+['"]([^'"]+)['"]/gm;
+  /(?:^|;)\s*export\s+\*\s+(?:as\s+([\w$]+)\s+)?from\s+['"]([^'"]+)['"]/gm;
+
+const REQUIRE_RE = /(?<![\w$.])require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+const REQUIRE_BINDING_RE =
+  /(?:\b(?:const|let|var)\s+(?:([\w$]+)|\{([^}]*)\})|\bimport\s+(type\s+)?([\w$]+))\s*=\s*$/;
+
+const REQUIRE_MEMBER_RE = /^\s*\.\s*([\w$]+)/;
+
+const CJS_NAMED_EXPORT_RE = /(?<![\w$.])(?:module\.)?exports\.([\w$]+)\s*=(?!=)\s*/g;
+
+const CJS_MODULE_EXPORT_RE = /(?<![\w$.])module\.exports\s*=(?!=)\s*/g;
+
+const EXPORT_ASSIGNMENT_RE = /(?:^|;|\})\s*export\s*=\s*/gm;
 
 function syntaxKindFromKeyword(kw: string | undefined): ExportKind {
   if (!kw) return 'unknown';
   const k = kw.trim();
-  if (k.startsWith('function')) return 'function';
+  if (k.startsWith('function') || k.startsWith('async')) return 'function';
   if (k.startsWith('class') || k.startsWith('abstract')) return 'class';
   if (k === 'interface') return 'interface';
   if (k === 'type') return 'type';
-  if (k === 'enum') return 'enum';
+  if (k.endsWith('enum')) return 'enum';
+  if (k === 'namespace' || k === 'module') return 'namespace';
   if (k === 'const' || k === 'let' || k === 'var') return 'variable';
   if (k.startsWith('declare')) return 'unknown';
   return 'unknown';
 }
 
+function valueKind(rhs: string): ExportKind {
+  if (/^(?:async\s+)?(?:function\b|\([^()]*\)\s*=>|[\w$]+\s*=>)/.test(rhs)) return 'function';
+  if (/^class\b/.test(rhs)) return 'class';
+  if (/^(?!(?:null|true|false)\b)[\w$]+\s*(?:;|\n|$)/.test(rhs)) return 'unknown';
+  return 'variable';
+}
+
+function objectLiteralKeys(src: string, open: number): { name: string; kind: ExportKind }[] {
+  const keys: { name: string; kind: ExportKind }[] = [];
+  let depth = 0;
+  let start = open + 1;
+
+  const addKey = (segment: string) => {
+    const m = /^\s*(?:async\s+)?\*?\s*([\w$]+)\s*(\(|:|,|$)/.exec(segment);
+    if (!m || segment.trimStart().startsWith('...')) return;
+    const kind = m[2] === '(' ? 'function'
+      : m[2] === ':' ? valueKind(segment.slice(m[0].length).trimStart())
+      : 'unknown';
+    keys.push({ name: m[1], kind });
+  };
+
+  for (let i = open; i < src.length; i++) {
+    const c = src[i];
+    if (c === '"' || c === "'") {
+      for (i++; i < src.length && src[i] !== c; i++) {
+        if (src[i] === '\\') i++;
+      }
+      continue;
+    }
+    if (c === '{' || c === '(' || c === '[') {
+      depth++;
+    } else if (c === '}' || c === ')' || c === ']') {
+      depth--;
+      if (depth === 0) {
+        addKey(src.slice(start, i));
+        break;
+      }
+    } else if (c === ',' && depth === 1) {
+      addKey(src.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  return keys;
+}
+
+function bindingPatternNames(src: string, open: number): string[] {
+  const names: string[] = [];
+  const isObject = src[open] === '{';
+  let depth = 0;
+  let start = open + 1;
+
+  const addBinding = (segment: string) => {
+    let target = segment.trim().replace(/^\.\.\./, '');
+    let level = 0;
+    for (let i = 0; i < target.length; i++) {
+      const c = target[i];
+      if (c === '{' || c === '[' || c === '(') level++;
+      else if (c === '}' || c === ']' || c === ')') level--;
+      else if (level === 0 && (c === '=' || (c === ':' && isObject))) {
+        target = c === ':' ? target.slice(i + 1).trim() : target.slice(0, i).trim();
+        break;
+      }
+    }
+    if (target.startsWith('{') || target.startsWith('[')) {
+      names.push(...bindingPatternNames(target, 0));
+      return;
+    }
+    const m = /^[\w$]+/.exec(target);
+    if (m) names.push(m[0]);
+  };
+
+  for (let i = open; i < src.length; i++) {
+    const c = src[i];
+    if (c === '{' || c === '(' || c === '[') {
+      depth++;
+    } else if (c === '}' || c === ')' || c === ']') {
+      depth--;
+      if (depth === 0) {
+        addBinding(src.slice(start, i));
+        break;
+      }
+    } else if (c === ',' && depth === 1) {
+      addBinding(src.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  return names;
+}
+
 function lineAt(src: string, index: number): number {
   let line = 1;
   for (let i = 0; i < index; i++) {
@@ -245,14 +409,11 @@ function lineAt(src: string, index: number): number {
   return line;
 }
 
-function parseImports(
-  src: string,
-  stripped: string,
-  sourceFilePath: string,
-  sourceDir: string,
-  aliases: PathAliases,
-  knownFiles: Set<string>
-): ImportEdge[] {
+function keywordIndex(m: RegExpExecArray, keyword: string): number {
+  return m.index + Math.max(0, m[0].indexOf(keyword));
+}
+
+function parseImports(src: string, stripped: string, sourceFilePath: string): ImportEdge[] {
   const edges: ImportEdge[] = [];
 
   STATIC_IMPORT_RE.lastIndex = 0;
@@ -265,10 +426,11 @@ function parseImports(
     const namespaceImport = m[2];
     const namedRaw = m[3];
     const named = namedRaw
-      ? namedRaw.split(',').map((s) => s.trim().replace(/\s+as\s+\S+/, '').trim()).filter(Boolean)
+      ? namedRaw.split(',').map((s) => s.trim().replace(/^type\s+/, '').replace(/\s+as\s+\S+/, '').trim()).filter(Boolean)
       : [];
 
-    const isTypeOnly = /^\s*import\s+type\s+/.test(stripped.slice(Math.max(0, m.index - 1), m.index + 20));
+    const at = keywordIndex(m, 'import');
+    const isTypeOnly = /^import\s+type\s+/.test(stripped.slice(at, at + 20));
 
     const symbols = [
       ...(defaultImport ? [defaultImport] : []),
@@ -278,12 +440,14 @@ function parseImports(
 
     edges.push({
       source: sourceFilePath,
-      target: resolveTarget(specifier, sourceDir, aliases, knownFiles),
+      target: '',
       rawSpecifier: specifier,
       symbols,
       isTypeOnly,
       isDynamic: false,
-      line: lineAt(src, m.index),
+      line: lineAt(src, at),
+      ...(defaultImport ? { defaultImport } : {}),
+      ...(namespaceImport ? { namespaceImport } : {}),
     });
   }
 
@@ -292,12 +456,12 @@ function parseImports(
     const specifier = m[1];
     edges.push({
       source: sourceFilePath,
-      target: resolveTarget(specifier, sourceDir, aliases, knownFiles),
+      target: '',
       rawSpecifier: specifier,
       symbols: [],
       isTypeOnly: false,
       isDynamic: false,
-      line: lineAt(src, m.index),
+      line: lineAt(src, keywordIndex(m, 'import')),
     });
   }
 
@@ -306,7 +470,7 @@ function parseImports(
     const specifier = m[1];
     edges.push({
       source: sourceFilePath,
-      target: resolveTarget(specifier, sourceDir, aliases, knownFiles),
+      target: '',
       rawSpecifier: specifier,
       symbols: [],
       isTypeOnly: false,
@@ -315,70 +479,167 @@ function parseImports(
     });
   }
 
+  REQUIRE_RE.lastIndex = 0;
+  while ((m = REQUIRE_RE.exec(stripped)) !== null) {
+    const specifier = m[1];
+    const windowStart = Math.max(0, m.index - 200);
+    const binding = REQUIRE_BINDING_RE.exec(stripped.slice(windowStart, m.index));
+    const end = m.index + m[0].length;
+    const member = REQUIRE_MEMBER_RE.exec(stripped.slice(end, end + 100))?.[1];
+
+    let symbols: string[] = [];
+    let namespaceImport: string | undefined;
+    const local = binding?.[1] ?? binding?.[4];
+    if (binding?.[2] !== undefined) {
+      for (const part of binding[2].split(',')) {
+        const name = part.split(/[:=]/)[0].trim();
+        if (!name) continue;
+        if (name.startsWith('...')) namespaceImport = name.slice(3).trim();
+        symbols.push(name.startsWith('...') ? name.slice(3).trim() : name);
+      }
+    } else if (member) {
+      symbols = [member];
+    } else if (local) {
+      symbols = [local];
+      namespaceImport = local;
+    }
+
+    edges.push({
+      source: sourceFilePath,
+      target: '',
+      rawSpecifier: specifier,
+      symbols,
+      isTypeOnly: !!binding?.[3],
+      isDynamic: false,
+      line: lineAt(src, binding ? windowStart + binding.index : m.index),
+      ...(namespaceImport ? { namespaceImport } : {}),
+    });
+  }
+
   return edges;
 }
 
-function parseExports(src: string, stripped: string, sourceFilePath: string): ExportInfo[] {
+function parseExports(src: string, stripped: string): ExportInfo[] {
   const exports: ExportInfo[] = [];
   const seen = new Set<string>();
 
   EXPORT_FROM_RE.lastIndex = 0;
   let m: RegExpExecArray | null;
   while ((m = EXPORT_FROM_RE.exec(stripped)) !== null) {
-    const names = m[1].split(',').map((s) => s.trim().replace(/\s+as\s+(\S+)/, '$1').trim()).filter(Boolean);
     const source = m[2];
-    const line = lineAt(src, m.index);
-    for (const name of names) {
+    const line = lineAt(src, keywordIndex(m, 'export'));
+    for (const part of m[1].split(',')) {
+      const [original, alias] = part.trim().split(/\s+as\s+/).map((s) => s.trim());
+      if (!original) continue;
+      const name = alias || original;
       if (seen.has(name)) continue;
       seen.add(name);
-      exports.push({ name, kind: 'unknown', line, isReExport: true, reExportSource: source });
+      exports.push({
+        name,
+        kind: 'unknown',
+        line,
+        isReExport: true,
+        reExportSource: source,
+        reExportName: original,
+      });
     }
   }
 
   EXPORT_STAR_RE.lastIndex = 0;
   while ((m = EXPORT_STAR_RE.exec(stripped)) !== null) {
-    const line = lineAt(src, m.index);
-    exports.push({ name: '*', kind: 'unknown', line, isReExport: true, reExportSource: m[1] });
+    const line = lineAt(src, keywordIndex(m, 'export'));
+    const namespace = m[1];
+    const source = m[2];
+    exports.push({
+      name: namespace ?? '*',
+      kind: namespace ? 'namespace' : 'unknown',
+      line,
+      isReExport: true,
+      reExportSource: source,
+      reExportName: '*',
+    });
+  }
+
+  EXPORT_LIST_RE.lastIndex = 0;
+  while ((m = EXPORT_LIST_RE.exec(stripped)) !== null) {
+    const line = lineAt(src, keywordIndex(m, 'export'));
+    for (const part of m[1].split(',')) {
+      const [local, alias] = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/).map((s) => s.trim());
+      const name = alias || local;
+      if (!name || seen.has(name)) continue;
+      seen.add(name);
+      exports.push({ name, kind: 'unknown', line, isReExport: false });
+    }
   }
 
   EXPORT_NAMED_RE.lastIndex = 0;
   while ((m = EXPORT_NAMED_RE.exec(stripped)) !== null) {
     const keyword = m[3];
     const nameOrStar = m[4];
-    if (!nameOrStar) continue;
-    if (nameOrStar.startsWith('*')) continue;
     const isDefault = !!m[2];
-    const name = isDefault ? 'default' : nameOrStar;
+    const line = lineAt(src, keywordIndex(m, 'export'));
+    if (nameOrStar?.startsWith('*')) continue;
+
+    if (!nameOrStar && !isDefault) {
+      const patternAt = m.index + m[0].length;
+      if (!/^(?:const|let|var)$/.test(keyword ?? '') || !'{['.includes(stripped[patternAt])) continue;
+      for (const name of bindingPatternNames(stripped, patternAt)) {
+        if (seen.has(name)) continue;
+        seen.add(name);
+        exports.push({ name, kind: 'variable', line, isReExport: false });
+      }
+      continue;
+    }
+
+    const name = isDefault ? 'default' : nameOrStar!;
     if (seen.has(name)) continue;
     seen.add(name);
     const kind = isDefault ? 'unknown' : syntaxKindFromKeyword(keyword);
-    exports.push({ name, kind, line: lineAt(src, m.index), isReExport: false });
+    exports.push({ name, kind, line, isReExport: false });
+  }
+
+  const add = (name: string, kind: ExportKind, index: number) => {
+    if (seen.has(name) || name === '__esModule') return;
+    seen.add(name);
+    exports.push({ name, kind, line: lineAt(src, index), isReExport: false, isCommonJs: true });
+  };
+
+  for (const re of [EXPORT_ASSIGNMENT_RE, CJS_MODULE_EXPORT_RE]) {
+    re.lastIndex = 0;
+    while ((m = re.exec(stripped)) !== null) {
+      const at = re === EXPORT_ASSIGNMENT_RE ? keywordIndex(m, 'export') : m.index;
+      const valueAt = m.index + m[0].length;
+      if (stripped[valueAt] === '{') {
+        add('default', 'variable', at);
+        for (const key of objectLiteralKeys(stripped, valueAt)) add(key.name, key.kind, at);
+      } else {
+        add('default', valueKind(stripped.slice(valueAt, valueAt + 100)), at);
+      }
+    }
+  }
+
+  CJS_NAMED_EXPORT_RE.lastIndex = 0;
+  while ((m = CJS_NAMED_EXPORT_RE.exec(stripped)) !== null) {
+    const valueAt = m.index + m[0].length;
+    add(m[1], valueKind(stripped.slice(valueAt, valueAt + 100)), m.index);
   }
 
   return exports;
 }
 
-export function analyzeFileFromContent(
+export function parseFileContent(
   filePath: string,
   content: string,
   projectRoot: string,
-  aliases: PathAliases,
-  knownFiles: Set<string>
+  sizeBytes = content.length
 ): FileNode {
-  const sourceDir = path.dirname(filePath);
   const stripped = stripComments(content);
 
-  const imports = parseImports(content, stripped, filePath, sourceDir, aliases, knownFiles);
-  const exports = parseExports(content, stripped, filePath);
-
-  let sizeBytes = content.length;
-  try { sizeBytes = statSync(filePath).size; } catch {}
-
   return {
     path: filePath,
     relativePath: path.relative(projectRoot, filePath),
-    imports,
-    exports,
+    imports: parseImports(content, stripped, filePath),
+    exports: parseExports(content, stripped),
     lastModified: Date.now(),
     hash: hashContent(content),
     sizeBytes,
@@ -386,10 +647,44 @@ export function analyzeFileFromContent(
   };
 }
 
+export function resolveFileNode(
+  node: FileNode,
+  resolver: ResolverContext,
+  knownFiles: Set<string>
+): FileNode {
+  return {
+    ...node,
+    owners: findOwners(resolver.codeOwners, node.relativePath),
+    imports: node.imports.map((imp) => ({
+      ...imp,
+      ...resolveImport(imp.rawSpecifier, node.path, resolver, knownFiles),
+    })),
+    exports: node.exports.map((exp) =>
+      exp.reExportSource
+        ? { ...exp, reExportTarget: resolveTarget(exp.reExportSource, node.path, resolver, knownFiles) }
+        : exp
+    ),
+  };
+}
+
+export function analyzeFileFromContent(
+  filePath: string,
+  content: string,
+  projectRoot: string,
+  resolver: ResolverContext,
+  knownFiles: Set<string>
+): FileNode {
+  let sizeBytes = content.length;
+  try { sizeBytes = statSync(filePath).size; } catch {}
+
+  const parsed = parseFileContent(filePath, content, projectRoot, sizeBytes);
+  return resolveFileNode(parsed, resolver, knownFiles);
+}
+
 export function analyzeFileAtPath(
   filePath: string,
   projectRoot: string,
-  aliases: PathAliases,
+  resolver: ResolverContext,
   knownFiles: Set<string>
 ): FileNode | null {
   let content: string;
@@ -398,56 +693,185 @@ export function analyzeFileAtPath(
   } catch {
     return null;
   }
-  return analyzeFileFromContent(filePath, content, projectRoot, aliases, knownFiles);
+  return analyzeFileFromContent(filePath, content, projectRoot, resolver, knownFiles);
+}
+
+export interface ParsedFile {
+  node: FileNode;
+  mtimeMs: number;
+}
+
+export function readAndParseFile(filePath: string, projectRoot: string): ParsedFile | null {
+  try {
+    const stats = statSync(filePath);
+    const content = readFileSync(filePath, 'utf-8');
+    return { node: parseFileContent(filePath, content, projectRoot, stats.size), mtimeMs: stats.mtimeMs };
+  } catch {
+    return null;
+  }
 }
 
 const BATCH_SIZE = 200;
-const MAX_CONCURRENT = 4;
+const MIN_FILES_PER_WORKER = 500;
+
+export function defaultWorkerCount(): number {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+function parseInThread(
+  batches: string[][],
+  projectRoot: string,
+  onBatch: (results: Array<ParsedFile | null>, files: string[]) => void
+): Promise<void> {
+  return (async () => {
+    for (const files of batches) {
+      onBatch(files.map((f) => readAndParseFile(f, projectRoot)), files);
+      await new Promise((r) => setImmediate(r));
+    }
+  })();
+}
+
+function parseInWorkers(
+  batches: string[][],
+  projectRoot: string,
+  poolSize: number,
+  onBatch: (results: Array<ParsedFile | null>, files: string[]) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    let next = 0;
+    let pending = batches.length;
+    let failed = false;
+
+    const finish = (err?: Error) => {
+      for (const w of workers) void w.terminate();
+      if (err) reject(err);
+      else resolve();
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (next >= batches.length) return;
+      const id = next++;
+      worker.postMessage({ id, files: batches[id] });
+    };
+
+    for (let i = 0; i < poolSize; i++) {
+      const worker = new Worker(new URL('./parse-worker.js', import.meta.url), {
+        workerData: { projectRoot },
+      });
+      workers.push(worker);
+
+      worker.on('message', (msg: { id: number; results: Array<ParsedFile | null> }) => {
+        if (failed) return;
+        onBatch(msg.results, batches[msg.id]);
+        if (--pending === 0) finish();
+        else dispatch(worker);
+      });
+      worker.on('error', (err) => {
+        if (failed) return;
+        failed = true;
+        finish(err);
+      });
+      worker.on('exit', (code) => {
+        if (failed || pending === 0) return;
+        failed = true;
+        finish(new Error(`Parser worker exited with code ${code} while ${pending} batch(es) were pending`));
+      });
+
+      dispatch(worker);
+    }
+  });
+}
+
+export interface AnalyzeOptions {
+  onProgress?: (done: number, total: number) => void;
+  cache?: ScanCache;
+  workers?: number;
+}
 
 export async function analyzeFiles(
   filePaths: string[],
   projectRoot: string,
-  aliases: PathAliases,
-  onProgress?: (done: number, total: number) => void
+  resolver: ResolverContext,
+  options: AnalyzeOptions = {}
 ): Promise<FileNode[]> {
+  const { onProgress, cache } = options;
   const knownFiles = new Set(filePaths);
-  const results: FileNode[] = new Array(filePaths.length);
+  const parsed = new Map<string, FileNode>();
   const total = filePaths.length;
 
-  const batches: Array<{ start: number; end: number }> = [];
-  for (let i = 0; i < total; i += BATCH_SIZE) {
-    batches.push({ start: i, end: Math.min(i + BATCH_SIZE, total) });
+  const toParse: string[] = [];
+  for (const filePath of filePaths) {
+    const entry = cache?.entries.get(filePath);
+    if (cache && entry) {
+      try {
+        const stats = statSync(filePath);
+        if (entry.mtimeMs === stats.mtimeMs && entry.node.sizeBytes === stats.size) {
+          cache.hits++;
+          parsed.set(filePath, entry.node);
+          continue;
+        }
+      } catch {
+        continue;
+      }
+    }
+    toParse.push(filePath);
   }
 
-  let batchIndex = 0;
-  let done = 0;
-
-  async function worker(): Promise<void> {
-    while (batchIndex < batches.length) {
-      const { start, end } = batches[batchIndex++];
-      for (let i = start; i < end; i++) {
-        const node = analyzeFileAtPath(filePaths[i], projectRoot, aliases, knownFiles);
-        if (node) results[i] = node;
+  let done = parsed.size;
+  if (done > 0) onProgress?.(done, total);
+
+  const handled = new Set<string[]>();
+  const onBatch = (results: Array<ParsedFile | null>, files: string[]) => {
+    handled.add(files);
+    results.forEach((result, i) => {
+      if (!result) return;
+      if (cache) {
+        const entry = cache.entries.get(files[i]);
+        if (entry && entry.node.hash === result.node.hash) cache.hits++;
+        else cache.misses++;
+        cache.entries.set(files[i], { mtimeMs: result.mtimeMs, node: result.node });
       }
-      done += end - start;
-      onProgress?.(Math.min(done, total), total);
-      await new Promise((r) => setImmediate(r));
-    }
+      parsed.set(files[i], result.node);
+    });
+    done += files.length;
+    onProgress?.(Math.min(done, total), total);
+  };
+
+  const batches: string[][] = [];
+  for (let i = 0; i < toParse.length; i += BATCH_SIZE) {
+    batches.push(toParse.slice(i, i + BATCH_SIZE));
   }
 
-  const concurrency = Math.min(MAX_CONCURRENT, batches.length);
-  const workers: Promise<void>[] = [];
-  for (let i = 0; i < concurrency; i++) workers.push(worker());
-  await Promise.all(workers);
+  const poolSize = Math.min(
+    options.workers ?? defaultWorkerCount(),
+    Math.floor(toParse.length / MIN_FILES_PER_WORKER),
+    batches.length
+  );
 
-  return results.filter(Boolean);
+  if (poolSize > 1) {
+    try {
+      await parseInWorkers(batches, projectRoot, poolSize, onBatch);
+    } catch {
+      await parseInThread(batches.filter((files) => !handled.has(files)), projectRoot, onBatch);
+    }
+  } else {
+    await parseInThread(batches, projectRoot, onBatch);
+  }
+
+  const results: FileNode[] = [];
+  for (const filePath of filePaths) {
+    const node = parsed.get(filePath);
+    if (node) results.push(resolveFileNode(node, resolver, knownFiles));
+  }
+  return results;
 }
 
 export function analyzeFile(
   filePath: string,
   projectRoot: string,
-  aliases: PathAliases,
+  resolver: ResolverContext,
   knownFiles: Set<string>
 ): FileNode | null {
-  return analyzeFileAtPath(filePath, projectRoot, aliases, knownFiles);
+  return analyzeFileAtPath(filePath, projectRoot, resolver, knownFiles);
 }
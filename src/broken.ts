@@ -0,0 +1,79 @@
+import * as path from 'node:path';
+import type { DependencyGraph, BrokenImport, ImportEdge } from './types.js';
+
+function exportsSymbol(
+  graph: DependencyGraph,
+  filePath: string,
+  name: string,
+  seen = new Set<string>()
+): boolean {
+  const node = graph.nodes.get(filePath);
+  if (!node) return true;
+  if (seen.has(filePath)) return false;
+  seen.add(filePath);
+
+  for (const exp of node.exports) {
+    if (exp.name === name) return true;
+    if (exp.name === 'default' && exp.isCommonJs) return true;
+  }
+
+  if (name === 'default') return false;
+  for (const exp of node.exports) {
+    if (exp.name !== '*') continue;
+    if (!exp.reExportTarget || exportsSymbol(graph, exp.reExportTarget, name, seen)) return true;
+  }
+  return false;
+}
+
+function importedNames(imp: ImportEdge): string[] {
+  if (imp.isDynamic) return [];
+  return imp.symbols
+    .filter((s) => s !== imp.namespaceImport)
+    .map((s) => (s === imp.defaultImport ? 'default' : s));
+}
+
+export function findBrokenImports(graph: DependencyGraph): BrokenImport[] {
+  const broken: BrokenImport[] = [];
+  const rel = (p: string) => path.relative(graph.projectRoot, p);
+
+  for (const node of graph.nodes.values()) {
+    for (const imp of node.imports) {
+      const base = { source: node.path, line: imp.line, rawSpecifier: imp.rawSpecifier };
+
+      if (imp.unresolved === 'missing-file') {
+        broken.push({
+          ...base,
+          kind: 'missing-file',
+          target: imp.target,
+          message: `'${imp.rawSpecifier}' points at ${rel(imp.target)}, which does not exist`,
+        });
+        continue;
+      }
+      if (imp.unresolved === 'unmatched-alias') {
+        broken.push({
+          ...base,
+          kind: 'unmatched-alias',
+          target: null,
+          message: `'${imp.rawSpecifier}' matches an alias or package but no file behind it`,
+        });
+        continue;
+      }
+
+      if (!imp.target || !graph.nodes.has(imp.target)) continue;
+      for (const symbol of importedNames(imp)) {
+        if (exportsSymbol(graph, imp.target, symbol)) continue;
+        broken.push({
+          ...base,
+          kind: 'missing-export',
+          target: imp.target,
+          symbol,
+          message: symbol === 'default'
+            ? `${rel(imp.target)} has no default export`
+            : `${rel(imp.target)} does not export ${symbol}`,
+        });
+      }
+    }
+  }
+
+  return broken.sort((a, b) => a.source.localeCompare(b.source) || a.line - b.line);
+}
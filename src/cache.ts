@@ -0,0 +1,76 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import * as path from 'node:path';
+import type { FileNode } from './types.js';
+import { resolveOutputDir } from './config.js';
+
+const CACHE_VERSION = 3;
+const CACHE_FILE = 'files.json';
+
+export interface CacheEntry {
+  mtimeMs: number;
+  node: FileNode;
+}
+
+export interface ScanCache {
+  fingerprint: string;
+  entries: Map<string, CacheEntry>;
+  coldMs: number | null;
+  hits: number;
+  misses: number;
+}
+
+function cacheDir(projectRoot: string): string {
+  return path.join(resolveOutputDir(projectRoot), 'cache');
+}
+
+export function computeFingerprint(projectRoot: string): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ version: CACHE_VERSION, projectRoot }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function loadScanCache(projectRoot: string, fingerprint: string): ScanCache {
+  const cache: ScanCache = { fingerprint, entries: new Map(), coldMs: null, hits: 0, misses: 0 };
+
+  try {
+    const raw = JSON.parse(readFileSync(path.join(cacheDir(projectRoot), CACHE_FILE), 'utf-8'));
+    if (raw.fingerprint !== fingerprint) return cache;
+    cache.coldMs = typeof raw.coldMs === 'number' ? raw.coldMs : null;
+    for (const [filePath, entry] of Object.entries(raw.entries ?? {})) {
+      cache.entries.set(filePath, entry as CacheEntry);
+    }
+  } catch {}
+
+  return cache;
+}
+
+export function saveScanCache(
+  projectRoot: string,
+  cache: ScanCache,
+  filePaths: Iterable<string>,
+  elapsedMs: number
+): void {
+  const entries: Record<string, CacheEntry> = {};
+  for (const filePath of filePaths) {
+    const entry = cache.entries.get(filePath);
+    if (entry) entries[filePath] = entry;
+  }
+
+  const isCold = cache.hits === 0;
+  const dir = cacheDir(projectRoot);
+  try {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      path.join(dir, CACHE_FILE),
+      JSON.stringify({
+        version: CACHE_VERSION,
+        fingerprint: cache.fingerprint,
+        coldMs: isCold ? elapsedMs : cache.coldMs,
+        entries,
+      }),
+      'utf-8'
+    );
+  } catch {}
+}
@@ -0,0 +1,167 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import type {
+  DependencyGraph,
+  GraphSummary,
+  RuleViolation,
+  BudgetFailure,
+  CheckResult,
+} from './types.js';
+import type { Budgets } from './config.js';
+import { getImpact } from './graph.js';
+import { toPosixRelative } from './glob.js';
+
+export interface Baseline {
+  version: 1;
+  generatedAt: string;
+  entries: Record<string, number>;
+}
+
+export function checkBudgets(
+  graph: DependencyGraph,
+  summary: GraphSummary,
+  violations: RuleViolation[],
+  budgets: Budgets,
+  changedFiles: string[] = []
+): BudgetFailure[] {
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+  const failures = new Map<string, BudgetFailure>();
+  const fail = (failure: Omit<BudgetFailure, 'baseline'>) => {
+    if (!failures.has(failure.key)) failures.set(failure.key, { ...failure, baseline: null });
+  };
+
+  const cycles = summary.circularDependencies;
+  if (budgets.maxCycles !== undefined && cycles.length > budgets.maxCycles) {
+    for (const { files } of cycles) {
+      const members = files.map(rel).sort();
+      fail({
+        budget: 'maxCycles',
+        key: `maxCycles:${members.join(',')}`,
+        file: null,
+        actual: members.length,
+        limit: budgets.maxCycles,
+        message: `Circular dependency across ${members.join(', ')} (${cycles.length} in total, budget: ${budgets.maxCycles})`,
+      });
+    }
+  }
+
+  if (budgets.maxDepth !== undefined && summary.maxDepth > budgets.maxDepth) {
+    fail({
+      budget: 'maxDepth',
+      key: 'maxDepth',
+      file: null,
+      actual: summary.maxDepth,
+      limit: budgets.maxDepth,
+      message: `Import chain is ${summary.maxDepth} levels deep (budget: ${budgets.maxDepth}): ${summary.maxDepthPath.map(rel).join(' → ')}`,
+    });
+  }
+
+  if (budgets.maxDependents !== undefined) {
+    for (const [file, dependents] of graph.dependents) {
+      if (!graph.nodes.has(file) || dependents.size <= budgets.maxDependents) continue;
+      fail({
+        budget: 'maxDependents',
+        key: `maxDependents:${rel(file)}`,
+        file: rel(file),
+        actual: dependents.size,
+        limit: budgets.maxDependents,
+        message: `${rel(file)} is imported by ${dependents.size} files (budget: ${budgets.maxDependents})`,
+      });
+    }
+  }
+
+  if (budgets.maxImpact !== undefined) {
+    for (const file of changedFiles) {
+      if (!graph.nodes.has(file)) continue;
+      const { totalAffected } = getImpact(graph, file);
+      if (totalAffected <= budgets.maxImpact) continue;
+      fail({
+        budget: 'maxImpact',
+        key: `maxImpact:${rel(file)}`,
+        file: rel(file),
+        actual: totalAffected,
+        limit: budgets.maxImpact,
+        message: `Changing ${rel(file)} affects ${totalAffected} files (budget: ${budgets.maxImpact})`,
+      });
+    }
+  }
+
+  if (budgets.noNewOrphans) {
+    for (const file of summary.unreachableFiles) {
+      fail({
+        budget: 'noNewOrphans',
+        key: `noNewOrphans:${rel(file)}`,
+        file: rel(file),
+        actual: 1,
+        limit: 0,
+        message: `${rel(file)} is not reachable from any entry point`,
+      });
+    }
+  }
+
+  for (const v of violations) {
+    if (v.severity !== 'error') continue;
+    fail({
+      budget: 'rule',
+      key: `rule:${v.rule}:${rel(v.source)}->${rel(v.target)}`,
+      file: rel(v.source),
+      actual: 1,
+      limit: 0,
+      message: v.message,
+    });
+  }
+
+  return Array.from(failures.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function loadBaseline(file: string): Baseline | null {
+  let raw: string;
+  try {
+    raw = readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let data: Partial<Baseline>;
+  try {
+    data = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${file}: ${(err as Error).message}`);
+  }
+  if (!data || typeof data.entries !== 'object' || data.entries === null) {
+    throw new Error(`Invalid baseline ${file}: expected an "entries" object`);
+  }
+  return { version: 1, generatedAt: data.generatedAt ?? '', entries: data.entries };
+}
+
+export function saveBaseline(file: string, failures: BudgetFailure[]): Baseline {
+  const baseline: Baseline = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    entries: Object.fromEntries(failures.map((f) => [f.key, f.actual])),
+  };
+  writeFileSync(file, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  return baseline;
+}
+
+export function applyBaseline(
+  failures: BudgetFailure[],
+  baseline: Baseline | null,
+  baselineFile: string | null
+): CheckResult {
+  const entries = baseline?.entries ?? {};
+  const withBaseline = failures.map((f) => ({ ...f, baseline: entries[f.key] ?? null }));
+  const regressions = withBaseline.filter((f) => f.baseline === null || f.actual > f.baseline);
+
+  const current = new Map(withBaseline.map((f) => [f.key, f.actual]));
+  const fixed = Object.keys(entries)
+    .filter((key) => !current.has(key) || current.get(key)! < entries[key])
+    .sort();
+
+  return {
+    passed: regressions.length === 0,
+    baselineFile: baseline ? baselineFile : null,
+    failures: withBaseline,
+    regressions,
+    fixed,
+  };
+}
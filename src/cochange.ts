@@ -0,0 +1,84 @@
+import type { DependencyGraph, CoChangePair, CoChangeReport, CoChangedFile, ImpactAnalysis } from './types.js';
+import type { CommitFiles } from './git.js';
+import { collectReachable } from './graph.js';
+
+export interface CoChangeOptions {
+  minSupport?: number;
+  minConfidence?: number;
+  maxFilesPerCommit?: number;
+}
+
+const DEFAULTS: Required<CoChangeOptions> = {
+  minSupport: 3,
+  minConfidence: 0.5,
+  maxFilesPerCommit: 30,
+};
+
+function pairKey(a: string, b: string): string {
+  return a < b ? a + '\0' + b : b + '\0' + a;
+}
+
+export function analyzeCoChange(
+  graph: DependencyGraph,
+  commits: CommitFiles[],
+  options: CoChangeOptions = {}
+): CoChangeReport {
+  const minSupport = options.minSupport ?? DEFAULTS.minSupport;
+  const minConfidence = options.minConfidence ?? DEFAULTS.minConfidence;
+  const maxFilesPerCommit = options.maxFilesPerCommit ?? DEFAULTS.maxFilesPerCommit;
+
+  const changes = new Map<string, number>();
+  const together = new Map<string, number>();
+  let commitsAnalyzed = 0;
+
+  for (const commit of commits) {
+    const files = Array.from(new Set(commit.files.filter((f) => graph.nodes.has(f)))).sort();
+    if (files.length === 0 || files.length > maxFilesPerCommit) continue;
+    commitsAnalyzed++;
+
+    for (const file of files) changes.set(file, (changes.get(file) ?? 0) + 1);
+    for (let i = 0; i < files.length; i++) {
+      for (let j = i + 1; j < files.length; j++) {
+        const key = pairKey(files[i], files[j]);
+        together.set(key, (together.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const reachable = new Map<string, Set<string>>();
+  const reaches = (from: string, to: string) => {
+    let set = reachable.get(from);
+    if (!set) {
+      set = collectReachable(graph, [from]);
+      reachable.set(from, set);
+    }
+    return set.has(to);
+  };
+
+  const pairs: CoChangePair[] = [];
+  for (const [key, support] of together) {
+    if (support < minSupport) continue;
+    const [a, b] = key.split('\0');
+    const confidence = Math.max(support / changes.get(a)!, support / changes.get(b)!);
+    if (confidence < minConfidence) continue;
+
+    pairs.push({ a, b, support, confidence, hasImportPath: reaches(a, b) || reaches(b, a) });
+  }
+
+  pairs.sort((x, y) => y.support - x.support || y.confidence - x.confidence || x.a.localeCompare(y.a));
+  return { commitsAnalyzed, pairs, hidden: pairs.filter((p) => !p.hasImportPath) };
+}
+
+export function getCoChangedFiles(report: CoChangeReport, filePath: string): CoChangedFile[] {
+  return report.pairs
+    .filter((p) => p.a === filePath || p.b === filePath)
+    .map((p) => ({ file: p.a === filePath ? p.b : p.a, support: p.support, confidence: p.confidence }));
+}
+
+export function withCoChanged(impact: ImpactAnalysis, report: CoChangeReport): ImpactAnalysis {
+  const staticallyAffected = new Set([impact.file, ...impact.directDependents, ...impact.transitiveDependents]);
+  return {
+    ...impact,
+    coChanged: getCoChangedFiles(report, impact.file).filter((c) => !staticallyAffected.has(c.file)),
+  };
+}
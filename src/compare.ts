@@ -0,0 +1,271 @@
+import { readFileSync } from 'node:fs';
+import type {
+  DependencyGraph,
+  GraphComparison,
+  GraphEdgeRef,
+  CycleChange,
+  FileMetricChange,
+  RemovedExport,
+} from './types.js';
+import { deserializeGraph, getSummary, analyzeDepth, detectCircularDependencies, findStronglyConnectedComponents } from './graph.js';
+import { findBrokenImports } from './broken.js';
+import { toPosixRelative } from './glob.js';
+import { DEFAULT_THRESHOLDS, type Thresholds } from './config.js';
+
+const MAX_LISTED = 10;
+
+export function loadGraphSnapshot(file: string): DependencyGraph {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read ${file}: ${(err as Error).message}`);
+  }
+  return deserializeGraph(data);
+}
+
+function edgeKeys(graph: DependencyGraph): Set<string> {
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+  const keys = new Set<string>();
+  for (const [source, targets] of graph.dependencies) {
+    if (!graph.nodes.has(source)) continue;
+    for (const target of targets) {
+      if (graph.nodes.has(target)) keys.add(rel(source) + '\0' + rel(target));
+    }
+  }
+  return keys;
+}
+
+function toEdge(key: string): GraphEdgeRef {
+  const [source, target] = key.split('\0');
+  return { source, target };
+}
+
+function compareMetric(
+  before: Map<string, number>,
+  after: Map<string, number>,
+  beforeFlagged: Set<string>,
+  afterFlagged: Set<string>
+): FileMetricChange[] {
+  const changes: FileMetricChange[] = [];
+  for (const file of new Set([...beforeFlagged, ...afterFlagged])) {
+    const b = before.get(file) ?? 0;
+    const a = after.get(file) ?? 0;
+    const wasFlagged = beforeFlagged.has(file);
+    const isFlagged = afterFlagged.has(file);
+    if (wasFlagged && isFlagged && a === b) continue;
+    const status = !wasFlagged ? 'new' : !isFlagged ? 'resolved' : 'changed';
+    changes.push({ file, status, before: b, after: a });
+  }
+  const order = { new: 0, changed: 1, resolved: 2 };
+  return changes.sort((x, y) => order[x.status] - order[y.status] || y.after - x.after || x.file.localeCompare(y.file));
+}
+
+interface Metrics {
+  files: Set<string>;
+  edges: Set<string>;
+  cycles: string[][];
+  dependentCount: Map<string, number>;
+  affectedCount: Map<string, number>;
+  godModules: Set<string>;
+  highImpactFiles: Set<string>;
+}
+
+function collectMetrics(graph: DependencyGraph, thresholds: Thresholds): Metrics {
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+  const components = findStronglyConnectedComponents(graph);
+  const summary = getSummary(graph, [], thresholds);
+
+  const dependentCount = new Map<string, number>();
+  for (const file of graph.nodes.keys()) {
+    dependentCount.set(rel(file), graph.dependents.get(file)?.size ?? 0);
+  }
+
+  const affectedCount = new Map<string, number>();
+  for (const [file, count] of analyzeDepth(graph, components).affectedCount) {
+    affectedCount.set(rel(file), count);
+  }
+
+  return {
+    files: new Set(Array.from(graph.nodes.keys(), rel)),
+    edges: edgeKeys(graph),
+    cycles: detectCircularDependencies(graph, components).map((c) => c.files.map(rel).sort()),
+    dependentCount,
+    affectedCount,
+    godModules: new Set(summary.godModules.map((g) => rel(g.path))),
+    highImpactFiles: new Set(summary.highImpactFiles.map((h) => rel(h.path))),
+  };
+}
+
+function compareCycles(before: string[][], after: string[][]): Pick<GraphComparison, 'newCycles' | 'resolvedCycles' | 'changedCycles'> {
+  const key = (files: string[]) => files.join('\0');
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  const overlaps = (a: string[], b: string[]) => a.some((f) => b.includes(f));
+
+  const newCycles: string[][] = [];
+  const changedCycles: CycleChange[] = [];
+  for (const cycle of after) {
+    if (beforeKeys.has(key(cycle))) continue;
+    const previous = before.filter((b) => !afterKeys.has(key(b)) && overlaps(b, cycle));
+    if (previous.length === 0) newCycles.push(cycle);
+    else changedCycles.push({ before: Array.from(new Set(previous.flat())).sort(), after: cycle });
+  }
+
+  const resolvedCycles = before.filter(
+    (cycle) => !afterKeys.has(key(cycle)) && !after.some((a) => overlaps(a, cycle))
+  );
+
+  return { newCycles, resolvedCycles, changedCycles };
+}
+
+function findRemovedExports(before: DependencyGraph, after: DependencyGraph): RemovedExport[] {
+  const beforeRel = (p: string) => toPosixRelative(before.projectRoot, p);
+  const afterRel = (p: string) => toPosixRelative(after.projectRoot, p);
+
+  const previousExports = new Map<string, Set<string>>();
+  for (const node of before.nodes.values()) {
+    previousExports.set(beforeRel(node.path), new Set(node.exports.map((e) => e.name)));
+  }
+
+  const removed = new Map<string, RemovedExport>();
+  for (const broken of findBrokenImports(after)) {
+    if (broken.kind !== 'missing-export' || !broken.target || !broken.symbol) continue;
+    const file = afterRel(broken.target);
+    if (!previousExports.get(file)?.has(broken.symbol)) continue;
+
+    const key = file + '\0' + broken.symbol;
+    let entry = removed.get(key);
+    if (!entry) {
+      entry = { file, name: broken.symbol, importers: [] };
+      removed.set(key, entry);
+    }
+    entry.importers.push({ file: afterRel(broken.source), line: broken.line });
+  }
+
+  return Array.from(removed.values())
+    .sort((a, b) => b.importers.length - a.importers.length || a.file.localeCompare(b.file) || a.name.localeCompare(b.name));
+}
+
+export function compareGraphs(
+  before: DependencyGraph,
+  after: DependencyGraph,
+  labels: { before: string; after: string },
+  thresholds: Thresholds = DEFAULT_THRESHOLDS
+): GraphComparison {
+  const b = collectMetrics(before, thresholds);
+  const a = collectMetrics(after, thresholds);
+  const sortEdges = (x: GraphEdgeRef, y: GraphEdgeRef) =>
+    x.source.localeCompare(y.source) || x.target.localeCompare(y.target);
+
+  return {
+    before: labels.before,
+    after: labels.after,
+    totals: {
+      files: { before: b.files.size, after: a.files.size },
+      edges: { before: b.edges.size, after: a.edges.size },
+      cycles: { before: b.cycles.length, after: a.cycles.length },
+    },
+    addedFiles: [...a.files].filter((f) => !b.files.has(f)).sort(),
+    removedFiles: [...b.files].filter((f) => !a.files.has(f)).sort(),
+    addedEdges: [...a.edges].filter((e) => !b.edges.has(e)).map(toEdge).sort(sortEdges),
+    removedEdges: [...b.edges].filter((e) => !a.edges.has(e)).map(toEdge).sort(sortEdges),
+    ...compareCycles(b.cycles, a.cycles),
+    godModules: compareMetric(b.dependentCount, a.dependentCount, b.godModules, a.godModules),
+    highImpactFiles: compareMetric(b.affectedCount, a.affectedCount, b.highImpactFiles, a.highImpactFiles),
+    removedExports: findRemovedExports(before, after),
+  };
+}
+
+function listed<T>(lines: string[], items: T[], format: (item: T) => string): void {
+  for (const item of items.slice(0, MAX_LISTED)) lines.push(`- ${format(item)}`);
+  if (items.length > MAX_LISTED) lines.push(`- …and ${items.length - MAX_LISTED} more`);
+  lines.push('');
+}
+
+function delta(before: number, after: number): string {
+  const d = after - before;
+  return d === 0 ? '—' : d > 0 ? `+${d}` : String(d);
+}
+
+export function buildCompareMarkdown(comparison: GraphComparison): string {
+  const c = comparison;
+  const lines: string[] = [];
+  const code = (f: string) => `\`${f}\``;
+  const metric = (label: string) => (m: FileMetricChange) =>
+    m.status === 'new'
+      ? `**new** ${code(m.file)} — ${m.after} ${label}`
+      : `${m.status === 'resolved' ? '**resolved** ' : ''}${code(m.file)} — ${m.before} → ${m.after} ${label}`;
+
+  lines.push(`## Architecture changes: \`${c.before}\` → \`${c.after}\``);
+  lines.push('');
+  lines.push('| | Before | After | Δ |');
+  lines.push('|--|--------|-------|---|');
+  lines.push(`| Files | ${c.totals.files.before} | ${c.totals.files.after} | ${delta(c.totals.files.before, c.totals.files.after)} |`);
+  lines.push(`| Import edges | ${c.totals.edges.before} | ${c.totals.edges.after} | ${delta(c.totals.edges.before, c.totals.edges.after)} |`);
+  lines.push(`| Circular dependencies | ${c.totals.cycles.before} | ${c.totals.cycles.after} | ${delta(c.totals.cycles.before, c.totals.cycles.after)} |`);
+  lines.push('');
+
+  if (c.removedExports.length > 0) {
+    lines.push(`### Removed exports still imported (${c.removedExports.length})`);
+    lines.push('');
+    listed(lines, c.removedExports, (r) => {
+      const importers = r.importers.slice(0, 3).map((i) => code(`${i.file}:${i.line}`)).join(', ');
+      const more = r.importers.length > 3 ? ` +${r.importers.length - 3} more` : '';
+      return `${code(r.name)} from ${code(r.file)} — imported by ${importers}${more}`;
+    });
+  }
+
+  if (c.newCycles.length > 0 || c.changedCycles.length > 0 || c.resolvedCycles.length > 0) {
+    lines.push('### Circular dependencies');
+    lines.push('');
+    if (c.newCycles.length > 0) {
+      listed(lines, c.newCycles, (files) => `**new** ${files.length} files: ${files.map(code).join(', ')}`);
+    }
+    if (c.changedCycles.length > 0) {
+      listed(lines, c.changedCycles, (ch) => {
+        const added = ch.after.filter((f) => !ch.before.includes(f));
+        const removed = ch.before.filter((f) => !ch.after.includes(f));
+        const parts = [
+          ...(added.length > 0 ? [`now includes ${added.map(code).join(', ')}`] : []),
+          ...(removed.length > 0 ? [`no longer includes ${removed.map(code).join(', ')}`] : []),
+        ];
+        return `${ch.before.length} → ${ch.after.length} files: ${parts.join('; ')}`;
+      });
+    }
+    if (c.resolvedCycles.length > 0) {
+      listed(lines, c.resolvedCycles, (files) => `**resolved** ${files.map(code).join(', ')}`);
+    }
+  }
+
+  if (c.godModules.length > 0) {
+    lines.push('### God modules');
+    lines.push('');
+    listed(lines, c.godModules, metric('dependents'));
+  }
+
+  if (c.highImpactFiles.length > 0) {
+    lines.push('### High-impact files');
+    lines.push('');
+    listed(lines, c.highImpactFiles, metric('files affected'));
+  }
+
+  if (c.addedFiles.length > 0 || c.removedFiles.length > 0) {
+    lines.push(`### Files (+${c.addedFiles.length} / -${c.removedFiles.length})`);
+    lines.push('');
+    listed(lines, [...c.addedFiles.map((f) => `added ${code(f)}`), ...c.removedFiles.map((f) => `removed ${code(f)}`)], (f) => f);
+  }
+
+  if (c.addedEdges.length > 0 || c.removedEdges.length > 0) {
+    lines.push(`### Imports (+${c.addedEdges.length} / -${c.removedEdges.length})`);
+    lines.push('');
+    listed(lines, [
+      ...c.addedEdges.map((e) => `added ${code(e.source)} → ${code(e.target)}`),
+      ...c.removedEdges.map((e) => `removed ${code(e.source)} → ${code(e.target)}`),
+    ], (e) => e);
+  }
+
+  lines.push(`<sub>Generated by [whobreaks](https://github.com/f1729/whobreaks)</sub>`);
+  lines.push('');
+  return lines.join('\n');
+}
@@ -0,0 +1,127 @@
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+
+export const CONFIG_FILE = 'whobreaks.config.json';
+
+export const DEFAULT_TEST_PATTERNS = [
+  '**/*.{test,spec}.{ts,tsx,js,jsx,mts,cts,mjs,cjs}',
+  '**/__tests__/**',
+];
+
+export const DEFAULT_EXCLUDE = [
+  'node_modules',
+  '.whobreaks',
+  'dist',
+  'build',
+  '.next',
+  '.nuxt',
+  'coverage',
+  '.git',
+  '__pycache__',
+  '.cache',
+  '.turbo',
+  'out',
+  '.vercel',
+];
+
+export const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+
+const patternList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const ruleBase = {
+  name: z.string().optional(),
+  severity: z.enum(['error', 'warning']).default('error'),
+  message: z.string().optional(),
+};
+
+const ruleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('forbidden'), from: patternList, to: patternList, ...ruleBase }),
+  z.object({ type: z.literal('allowed'), from: patternList, allow: patternList, ...ruleBase }),
+  z.object({ type: z.literal('no-cycles'), within: patternList, ...ruleBase }),
+]);
+
+const weight = (value: number) => z.number().min(0).default(value);
+
+const riskSchema = z.object({
+  weights: z.object({
+    impact: weight(3),
+    churn: weight(2),
+    authors: weight(1),
+    lines: weight(1),
+    cycle: weight(1),
+    fanOut: weight(1),
+  }).default({}),
+}).default({});
+
+const thresholdsSchema = z.object({
+  godModule: z.number().int().min(1).default(20),
+  highImpact: z.number().int().min(1).default(10),
+  highRisk: z.number().min(0).max(100).default(60),
+  mediumRisk: z.number().min(0).max(100).default(30),
+}).default({});
+
+const limit = z.number().int().min(0).optional();
+
+const budgetsSchema = z.object({
+  maxCycles: limit,
+  maxDependents: limit,
+  maxDepth: limit,
+  maxImpact: limit,
+  noNewOrphans: z.boolean().default(false),
+  baseline: z.string().default('whobreaks.baseline.json'),
+}).default({});
+
+const configSchema = z.object({
+  include: patternList.default([]),
+  exclude: patternList.default([]),
+  extensions: z.array(z.string().regex(/^\.\w+$/, 'must look like ".ts"')).min(1).default(DEFAULT_EXTENSIONS),
+  outputDir: z.string().min(1).default('.whobreaks'),
+  thresholds: thresholdsSchema,
+  rules: z.array(ruleSchema).default([]),
+  entryPoints: patternList.default([]),
+  testPatterns: patternList.default(DEFAULT_TEST_PATTERNS),
+  risk: riskSchema,
+  budgets: budgetsSchema,
+});
+
+export type WhobreaksConfig = z.infer<typeof configSchema>;
+export type ArchitectureRule = z.infer<typeof ruleSchema>;
+export type Budgets = z.infer<typeof budgetsSchema>;
+export type Thresholds = z.infer<typeof thresholdsSchema>;
+
+export const DEFAULT_THRESHOLDS: Thresholds = thresholdsSchema.parse(undefined);
+
+export function loadConfig(projectRoot: string): WhobreaksConfig {
+  const configPath = path.join(projectRoot, CONFIG_FILE);
+
+  let raw: string;
+  try {
+    raw = readFileSync(configPath, 'utf-8');
+  } catch {
+    return configSchema.parse({});
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${CONFIG_FILE}: ${(err as Error).message}`);
+  }
+
+  const parsed = configSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid ${CONFIG_FILE}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+export function resolveOutputDir(projectRoot: string, config: WhobreaksConfig = loadConfig(projectRoot)): string {
+  return path.resolve(projectRoot, config.outputDir);
+}
@@ -0,0 +1,174 @@
+import * as path from 'node:path';
+import type {
+  DependencyGraph,
+  CircularDependency,
+  CycleBreakPlan,
+  CycleBreakSuggestion,
+  ImportEdge,
+} from './types.js';
+import { detectCircularDependencies } from './graph.js';
+
+const TYPE_ONLY_WEIGHT = 0.25;
+const MAX_MINIMIZE_CUTS = 500;
+
+interface WeightedEdge {
+  source: string;
+  target: string;
+  weight: number;
+  imports: ImportEdge[];
+}
+
+function importWeight(imp: ImportEdge): number {
+  const symbols = Math.max(1, imp.symbols.length);
+  return imp.isTypeOnly ? symbols * TYPE_ONLY_WEIGHT : symbols;
+}
+
+function collectEdges(graph: DependencyGraph, tangle: CircularDependency): WeightedEdge[] {
+  const edges: WeightedEdge[] = [];
+  for (const { source, target } of tangle.edges) {
+    const imports = graph.nodes.get(source)?.imports.filter((i) => i.target === target) ?? [];
+    const weight = imports.reduce((sum, imp) => sum + importWeight(imp), 0) || 1;
+    edges.push({ source, target, weight, imports });
+  }
+  return edges;
+}
+
+function greedyOrder(files: string[], edges: WeightedEdge[]): Map<string, number> {
+  const outgoing = new Map<string, WeightedEdge[]>();
+  const incoming = new Map<string, WeightedEdge[]>();
+  for (const f of files) {
+    outgoing.set(f, []);
+    incoming.set(f, []);
+  }
+  for (const e of edges) {
+    outgoing.get(e.source)!.push(e);
+    incoming.get(e.target)!.push(e);
+  }
+
+  const remaining = new Set(files);
+  const weightOf = (list: WeightedEdge[], end: 'source' | 'target') =>
+    list.reduce((sum, e) => (remaining.has(e[end]) ? sum + e.weight : sum), 0);
+
+  const head: string[] = [];
+  const tail: string[] = [];
+
+  while (remaining.size > 0) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const f of remaining) {
+        if (weightOf(outgoing.get(f)!, 'target') === 0) {
+          tail.unshift(f);
+          remaining.delete(f);
+          changed = true;
+        } else if (weightOf(incoming.get(f)!, 'source') === 0) {
+          head.push(f);
+          remaining.delete(f);
+          changed = true;
+        }
+      }
+    }
+
+    if (remaining.size === 0) break;
+
+    let best = '';
+    let bestDelta = -Infinity;
+    for (const f of remaining) {
+      const delta = weightOf(outgoing.get(f)!, 'target') - weightOf(incoming.get(f)!, 'source');
+      if (delta > bestDelta) {
+        bestDelta = delta;
+        best = f;
+      }
+    }
+    head.push(best);
+    remaining.delete(best);
+  }
+
+  const order = new Map<string, number>();
+  [...head, ...tail].forEach((f, i) => order.set(f, i));
+  return order;
+}
+
+function isAcyclic(files: string[], edges: WeightedEdge[]): boolean {
+  const inDegree = new Map<string, number>(files.map((f) => [f, 0]));
+  const outgoing = new Map<string, string[]>(files.map((f) => [f, []]));
+  for (const e of edges) {
+    outgoing.get(e.source)!.push(e.target);
+    inDegree.set(e.target, inDegree.get(e.target)! + 1);
+  }
+
+  const queue = files.filter((f) => inDegree.get(f) === 0);
+  let visited = 0;
+  for (let i = 0; i < queue.length; i++) {
+    visited++;
+    for (const next of outgoing.get(queue[i])!) {
+      const d = inDegree.get(next)! - 1;
+      inDegree.set(next, d);
+      if (d === 0) queue.push(next);
+    }
+  }
+  return visited === files.length;
+}
+
+function feedbackEdges(files: string[], edges: WeightedEdge[]): WeightedEdge[] {
+  const order = greedyOrder(files, edges);
+  const cuts = edges.filter((e) => order.get(e.target)! <= order.get(e.source)!);
+  if (cuts.length > MAX_MINIMIZE_CUTS) return cuts;
+
+  const kept = edges.filter((e) => !cuts.includes(e));
+  const needed: WeightedEdge[] = [];
+  for (const cut of [...cuts].sort((a, b) => b.weight - a.weight)) {
+    kept.push(cut);
+    if (isAcyclic(files, kept)) continue;
+    kept.pop();
+    needed.push(cut);
+  }
+  return needed;
+}
+
+function describeCut(edge: WeightedEdge, projectRoot: string): string {
+  const target = path.relative(projectRoot, edge.target);
+  const symbols = Array.from(new Set(edge.imports.flatMap((i) => i.symbols)));
+
+  if (edge.imports.length > 0 && edge.imports.every((i) => i.isTypeOnly)) {
+    return `Only types cross this edge — move ${symbols.join(', ')} out of ${target} into a shared types module`;
+  }
+  if (symbols.length === 0) {
+    return `Side-effect import of ${target} — move the side effect to an entry point`;
+  }
+  return `Move ${symbols.join(', ')} out of ${target} into a module both files can import, or invert the dependency`;
+}
+
+export function suggestCycleBreaks(
+  graph: DependencyGraph,
+  circular: CircularDependency[] = detectCircularDependencies(graph)
+): CycleBreakPlan[] {
+  const plans: CycleBreakPlan[] = [];
+
+  for (const tangle of circular) {
+    const edges = collectEdges(graph, tangle);
+    const cuts: CycleBreakSuggestion[] = feedbackEdges(tangle.files, edges)
+      .sort((a, b) => a.weight - b.weight)
+      .map((edge) => ({
+        source: edge.source,
+        target: edge.target,
+        weight: edge.weight,
+        imports: edge.imports.map((i) => ({
+          line: i.line,
+          rawSpecifier: i.rawSpecifier,
+          symbols: i.symbols,
+          isTypeOnly: i.isTypeOnly,
+        })),
+        hint: describeCut(edge, graph.projectRoot),
+      }));
+
+    plans.push({
+      files: tangle.files,
+      size: tangle.size,
+      cuts,
+      totalWeight: cuts.reduce((sum, c) => sum + c.weight, 0),
+    });
+  }
+
+  return plans;
+}
@@ -0,0 +1,120 @@
+import * as path from 'node:path';
+import type { DependencyGraph, DiffImpact, AffectedFile, ChangedFileImpact } from './types.js';
+import { getImpact, getDependentDistances } from './graph.js';
+
+export function getDiffImpact(
+  graph: DependencyGraph,
+  changedFiles: string[],
+  baseRef: string | null = null
+): DiffImpact {
+  const changedSet = new Set(changedFiles);
+  const unanalyzedFiles = changedFiles.filter((f) => !graph.nodes.has(f));
+
+  const affected = new Map<string, AffectedFile>();
+  const changedImpacts: ChangedFileImpact[] = [];
+
+  for (const file of changedFiles) {
+    if (graph.nodes.has(file)) {
+      const impact = getImpact(graph, file);
+      changedImpacts.push({
+        file,
+        directDependents: impact.directDependents.length,
+        totalAffected: impact.totalAffected,
+        criticalExports: impact.criticalExports,
+      });
+    }
+
+    for (const [dep, distance] of getDependentDistances(graph, file)) {
+      if (changedSet.has(dep)) continue;
+
+      const entry = affected.get(dep);
+      if (!entry) {
+        affected.set(dep, { file: dep, distance, changedBy: [file] });
+        continue;
+      }
+      entry.changedBy.push(file);
+      if (distance < entry.distance) entry.distance = distance;
+    }
+  }
+
+  changedImpacts.sort((a, b) => b.totalAffected - a.totalAffected);
+
+  const affectedFiles = Array.from(affected.values()).sort(
+    (a, b) => a.distance - b.distance || a.file.localeCompare(b.file)
+  );
+
+  return {
+    baseRef,
+    changedFiles: changedImpacts,
+    unanalyzedFiles,
+    affectedFiles,
+    totalAffected: affectedFiles.length,
+  };
+}
+
+export function serializeDiffImpact(diff: DiffImpact, projectRoot: string): object {
+  const rel = (p: string) => path.relative(projectRoot, p);
+  return {
+    baseRef: diff.baseRef,
+    totalAffected: diff.totalAffected,
+    changedFiles: diff.changedFiles.map((c) => ({ ...c, file: rel(c.file) })),
+    unanalyzedFiles: diff.unanalyzedFiles.map(rel),
+    affectedFiles: diff.affectedFiles.map((a) => ({
+      file: rel(a.file),
+      distance: a.distance,
+      changedBy: a.changedBy.map(rel),
+    })),
+  };
+}
+
+export function buildDiffMarkdown(diff: DiffImpact, projectRoot: string): string {
+  const rel = (p: string) => path.relative(projectRoot, p);
+  const lines: string[] = [];
+  const source = diff.baseRef ? `\`${diff.baseRef}...HEAD\`` : 'working tree';
+
+  lines.push('# Change Impact');
+  lines.push('');
+  lines.push(`> Generated by [whobreaks](https://github.com/f1729/whobreaks) on ${new Date().toISOString()} from ${source}`);
+  lines.push('');
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`| Metric | Value |`);
+  lines.push(`|--------|-------|`);
+  lines.push(`| Changed source files | ${diff.changedFiles.length} |`);
+  lines.push(`| Affected files | ${diff.totalAffected} |`);
+  lines.push(`| Directly affected | ${diff.affectedFiles.filter((a) => a.distance === 1).length} |`);
+  lines.push('');
+
+  if (diff.changedFiles.length > 0) {
+    lines.push('## Changed Files');
+    lines.push('');
+    for (const c of diff.changedFiles) {
+      const critical = c.criticalExports.length > 0
+        ? ` (high-usage exports: ${c.criticalExports.join(', ')})`
+        : '';
+      lines.push(`- \`${rel(c.file)}\` — ${c.totalAffected} files affected${critical}`);
+    }
+    lines.push('');
+  }
+
+  if (diff.unanalyzedFiles.length > 0) {
+    lines.push('## Deleted or Unanalyzed Files');
+    lines.push('');
+    for (const f of diff.unanalyzedFiles) lines.push(`- \`${rel(f)}\``);
+    lines.push('');
+  }
+
+  if (diff.affectedFiles.length > 0) {
+    lines.push('## Affected Files');
+    lines.push('');
+    lines.push('| File | Distance | Changed by |');
+    lines.push('|------|----------|------------|');
+    for (const a of diff.affectedFiles) {
+      lines.push(`| \`${rel(a.file)}\` | ${a.distance} | ${a.changedBy.map((f) => `\`${rel(f)}\``).join(', ')} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,86 @@
+import * as path from 'node:path';
+import type { DependencyGraph, EntryPoint } from './types.js';
+import { loadWorkspace, packageEntryCandidates, type Workspace } from './packages.js';
+import { matchesGlob, toPosixRelative } from './glob.js';
+
+const SOURCE_EXT_RE = /(?:\.d)?\.[mc]?[jt]sx?$/;
+const SCRIPT_FILE_RE = /(?:^|[\s='"])((?:\.{0,2}\/)?[\w@.\/-]+\.[mc]?[jt]sx?)(?=$|[\s'";&|])/g;
+
+const CONVENTIONS: Array<{ reason: string; patterns: string[] }> = [
+  { reason: 'test file', patterns: ['**/*.{test,spec}.*', '**/__tests__/**', '**/__mocks__/**'] },
+  { reason: 'config file', patterns: ['**/*.config.*', '**/.*rc.{js,cjs,mjs,ts}'] },
+  { reason: 'type declarations', patterns: ['**/*.d.{ts,mts,cts}'] },
+  { reason: 'story', patterns: ['**/*.stories.*', '**/.storybook/**'] },
+  { reason: 'worker', patterns: ['**/*{.,-}worker.*'] },
+  { reason: 'Next.js page', patterns: ['**/pages/**'] },
+  {
+    reason: 'Next.js route',
+    patterns: [
+      '**/app/**/{page,layout,template,loading,error,global-error,not-found,default,route,opengraph-image,sitemap,robots}.*',
+      '**/{middleware,instrumentation}.*',
+    ],
+  },
+  { reason: 'route module', patterns: ['**/routes/**'] },
+];
+
+function stripExtension(filePath: string): string {
+  return filePath.replace(SOURCE_EXT_RE, '');
+}
+
+export function detectEntryPoints(
+  graph: DependencyGraph,
+  configured: string[] = [],
+  workspace: Workspace = loadWorkspace(graph.projectRoot)
+): EntryPoint[] {
+  const entries = new Map<string, string>();
+  const add = (file: string, reason: string) => {
+    if (!entries.has(file)) entries.set(file, reason);
+  };
+
+  const byStem = new Map<string, string[]>();
+  for (const file of graph.nodes.keys()) {
+    const stem = stripExtension(file);
+    const list = byStem.get(stem) ?? [];
+    list.push(file);
+    byStem.set(stem, list);
+  }
+
+  const matchCandidate = (candidate: string, reason: string) => {
+    const stem = stripExtension(candidate);
+    if (stem.includes('*')) {
+      const pattern = toPosixRelative(graph.projectRoot, stem);
+      for (const file of graph.nodes.keys()) {
+        if (matchesGlob(toPosixRelative(graph.projectRoot, stripExtension(file)), pattern)) add(file, reason);
+      }
+      return;
+    }
+    for (const file of byStem.get(stem) ?? byStem.get(path.join(stem, 'index')) ?? []) add(file, reason);
+  };
+
+  for (const file of graph.nodes.keys()) {
+    if (configured.length > 0 && matchesGlob(toPosixRelative(graph.projectRoot, file), configured)) {
+      add(file, 'whobreaks.config.json');
+    }
+  }
+
+  for (const pkg of workspace.packages) {
+    const manifestPath = toPosixRelative(graph.projectRoot, path.join(pkg.dir, 'package.json'));
+    for (const candidate of packageEntryCandidates(pkg)) {
+      matchCandidate(candidate, `${manifestPath} entry`);
+    }
+    for (const [name, command] of Object.entries(pkg.manifest.scripts ?? {})) {
+      for (const [, file] of command.matchAll(SCRIPT_FILE_RE)) {
+        matchCandidate(path.resolve(pkg.dir, file), `${manifestPath} script "${name}"`);
+      }
+    }
+  }
+
+  for (const file of graph.nodes.keys()) {
+    const relativePath = toPosixRelative(graph.projectRoot, file);
+    const convention = CONVENTIONS.find(({ patterns }) => matchesGlob(relativePath, patterns));
+    if (convention) add(file, convention.reason);
+  }
+
+  return Array.from(entries, ([file, reason]) => ({ file, reason }))
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
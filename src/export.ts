@@ -0,0 +1,261 @@
+import * as path from 'node:path';
+import type { DependencyGraph, FileNode } from './types.js';
+import { createGraph, addNode, serializeGraph, detectCircularDependencies } from './graph.js';
+import { toPosixRelative } from './glob.js';
+
+export const EXPORT_FORMATS = ['dot', 'mermaid', 'graphml', 'csv', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  focus?: string;
+  depth?: number;
+  direction?: 'up' | 'down' | 'both';
+  dir?: string;
+  cyclesOnly?: boolean;
+  collapse?: boolean;
+}
+
+interface ExportNode {
+  id: string;
+  files: number;
+  dependentCount: number;
+  dependencyCount: number;
+}
+
+interface ExportEdge {
+  source: string;
+  target: string;
+  weight: number;
+  symbols: string[];
+  inCycle: boolean;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  dot: 'text/vnd.graphviz',
+  mermaid: 'text/plain',
+  graphml: 'application/xml',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+export function exportContentType(format: ExportFormat): string {
+  return `${MIME_TYPES[format]}; charset=utf-8`;
+}
+
+function neighborhood(graph: DependencyGraph, focus: string, depth: number, direction: 'up' | 'down' | 'both'): Set<string> {
+  const selected = new Set([focus]);
+  const walk = (edges: Map<string, Set<string>>) => {
+    let frontier = [focus];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        for (const neighbor of edges.get(file) ?? []) {
+          if (!graph.nodes.has(neighbor) || selected.has(neighbor)) continue;
+          selected.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+  };
+  if (direction !== 'up') walk(graph.dependencies);
+  if (direction !== 'down') walk(graph.dependents);
+  return selected;
+}
+
+function selectFiles(graph: DependencyGraph, options: ExportOptions): Set<string> {
+  let files = new Set(graph.nodes.keys());
+  const keep = (predicate: (file: string) => boolean) => {
+    files = new Set(Array.from(files).filter(predicate));
+  };
+
+  if (options.focus) {
+    if (!graph.nodes.has(options.focus)) {
+      throw new Error(`File not in graph: ${path.relative(graph.projectRoot, options.focus)}`);
+    }
+    const around = neighborhood(graph, options.focus, options.depth ?? 1, options.direction ?? 'both');
+    keep((f) => around.has(f));
+  }
+  if (options.dir) {
+    const dir = options.dir.endsWith(path.sep) ? options.dir : options.dir + path.sep;
+    keep((f) => f.startsWith(dir));
+  }
+  if (options.cyclesOnly) {
+    const cyclic = new Set(detectCircularDependencies(graph).flatMap((c) => c.files));
+    keep((f) => cyclic.has(f));
+  }
+  return files;
+}
+
+function filterGraph(graph: DependencyGraph, options: ExportOptions): DependencyGraph {
+  const subgraph = createGraph(graph.projectRoot);
+  for (const file of selectFiles(graph, options)) {
+    addNode(subgraph, graph.nodes.get(file)!);
+  }
+  subgraph.lastUpdate = graph.lastUpdate;
+  return subgraph;
+}
+
+function directoryOf(relativePath: string): string {
+  return path.posix.dirname(relativePath);
+}
+
+function buildExportGraph(graph: DependencyGraph, collapse: boolean): { nodes: ExportNode[]; edges: ExportEdge[] } {
+  const data = serializeGraph(graph) as {
+    nodes: Array<FileNode & { dependentCount: number; dependencyCount: number }>;
+    edges: Array<{ source: string; target: string; symbols: string[] }>;
+  };
+  const cyclic = new Set(detectCircularDependencies(graph).flatMap((c) => c.edges.map((e) => e.source + '\0' + e.target)));
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+  const idOf = (p: string) => (collapse ? directoryOf(rel(p)) : rel(p));
+
+  const nodes = new Map<string, ExportNode>();
+  for (const node of data.nodes) {
+    const id = idOf(node.path);
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.files++;
+    } else {
+      nodes.set(id, { id, files: 1, dependentCount: 0, dependencyCount: 0 });
+    }
+  }
+
+  const edges = new Map<string, ExportEdge>();
+  for (const edge of data.edges) {
+    const source = idOf(edge.source);
+    const target = idOf(edge.target);
+    if (collapse && source === target) continue;
+
+    const key = source + '\0' + target;
+    const inCycle = cyclic.has(edge.source + '\0' + edge.target);
+    const existing = edges.get(key);
+    if (existing) {
+      existing.weight++;
+      existing.inCycle ||= inCycle;
+      for (const s of edge.symbols) if (!existing.symbols.includes(s)) existing.symbols.push(s);
+    } else {
+      edges.set(key, { source, target, weight: 1, symbols: [...edge.symbols], inCycle });
+    }
+  }
+
+  for (const edge of edges.values()) {
+    nodes.get(edge.source)!.dependencyCount++;
+    nodes.get(edge.target)!.dependentCount++;
+  }
+
+  const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+  return {
+    nodes: Array.from(nodes.values()).sort(byId),
+    edges: Array.from(edges.values()).sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target)),
+  };
+}
+
+function escapeDot(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function toDot(nodes: ExportNode[], edges: ExportEdge[], collapse: boolean): string {
+  const lines = ['digraph whobreaks {', '  rankdir=LR;', '  node [shape=box, style=rounded, fontname="Helvetica"];'];
+  for (const node of nodes) {
+    const label = collapse ? `${escapeDot(node.id)}/\\n${node.files} files` : escapeDot(node.id);
+    lines.push(`  "${escapeDot(node.id)}" [label="${label}"];`);
+  }
+  for (const edge of edges) {
+    const attrs: string[] = [];
+    if (collapse) attrs.push(`label="${edge.weight}"`, `weight=${edge.weight}`, `penwidth=${Math.min(1 + Math.log2(edge.weight), 6).toFixed(1)}`);
+    if (edge.inCycle) attrs.push('color="#f85149"');
+    lines.push(`  "${escapeDot(edge.source)}" -> "${escapeDot(edge.target)}"${attrs.length > 0 ? ` [${attrs.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function toMermaid(nodes: ExportNode[], edges: ExportEdge[], collapse: boolean): string {
+  const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const escape = (s: string) => s.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+  for (const node of nodes) {
+    const label = collapse ? `${node.id}/<br/>${node.files} files` : node.id;
+    lines.push(`  ${ids.get(node.id)}["${escape(label)}"]`);
+  }
+  const cycleLinks: number[] = [];
+  edges.forEach((edge, i) => {
+    const arrow = collapse ? `-->|${edge.weight}|` : '-->';
+    lines.push(`  ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}`);
+    if (edge.inCycle) cycleLinks.push(i);
+  });
+  if (cycleLinks.length > 0) lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#f85149`);
+  return lines.join('\n') + '\n';
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toGraphML(nodes: ExportNode[], edges: ExportEdge[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="files" for="node" attr.name="files" attr.type="int"/>',
+    '  <key id="dependents" for="node" attr.name="dependents" attr.type="int"/>',
+    '  <key id="dependencies" for="node" attr.name="dependencies" attr.type="int"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="symbols" for="edge" attr.name="symbols" attr.type="string"/>',
+    '  <key id="cycle" for="edge" attr.name="cycle" attr.type="boolean"/>',
+    '  <graph id="whobreaks" edgedefault="directed">',
+  ];
+  for (const node of nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.id)}</data>`);
+    lines.push(`      <data key="files">${node.files}</data>`);
+    lines.push(`      <data key="dependents">${node.dependentCount}</data>`);
+    lines.push(`      <data key="dependencies">${node.dependencyCount}</data>`);
+    lines.push('    </node>');
+  }
+  edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      <data key="weight">${edge.weight}</data>`);
+    lines.push(`      <data key="symbols">${escapeXml(edge.symbols.join(' '))}</data>`);
+    lines.push(`      <data key="cycle">${edge.inCycle}</data>`);
+    lines.push('    </edge>');
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function csvField(s: string): string {
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(edges: ExportEdge[]): string {
+  const lines = ['Source,Target,Weight,Cycle,Symbols'];
+  for (const edge of edges) {
+    lines.push([edge.source, edge.target, String(edge.weight), String(edge.inCycle), edge.symbols.join(' ')].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function exportGraph(graph: DependencyGraph, options: ExportOptions): string {
+  const subgraph = filterGraph(graph, options);
+  const collapse = !!options.collapse;
+
+  if (options.format === 'json' && !collapse) {
+    return JSON.stringify(serializeGraph(subgraph), null, 2) + '\n';
+  }
+
+  const { nodes, edges } = buildExportGraph(subgraph, collapse);
+  switch (options.format) {
+    case 'dot':
+      return toDot(nodes, edges, collapse);
+    case 'mermaid':
+      return toMermaid(nodes, edges, collapse);
+    case 'graphml':
+      return toGraphML(nodes, edges);
+    case 'csv':
+      return toCsv(edges);
+    case 'json':
+      return JSON.stringify({ projectRoot: graph.projectRoot, nodes, edges }, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,105 @@
+import * as path from 'node:path';
+import type { DependencyGraph, DependencyIssue, PackageImpact } from './types.js';
+import { collectDependents } from './graph.js';
+import { findOwningPackage, loadWorkspace, type PackageManifest, type Workspace } from './packages.js';
+
+const RUNTIME_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies'] as const;
+const ALL_FIELDS = [...RUNTIME_FIELDS, 'devDependencies'] as const;
+
+function declaredIn(manifest: PackageManifest, name: string): boolean {
+  const typesName = '@types/' + (name.startsWith('@') ? name.slice(1).replace('/', '__') : name);
+  return ALL_FIELDS.some((field) => {
+    const deps = manifest[field];
+    return !!deps && (name in deps || typesName in deps);
+  });
+}
+
+export function getPackageImpact(graph: DependencyGraph, name: string): PackageImpact {
+  const importers = graph.externals.get(name) ?? new Set<string>();
+  const symbols = new Set<string>();
+  for (const file of importers) {
+    for (const imp of graph.nodes.get(file)?.imports ?? []) {
+      if (imp.external === name) imp.symbols.forEach((s) => symbols.add(s));
+    }
+  }
+
+  const affected = collectDependents(graph, importers);
+  const directImporters = Array.from(importers).sort();
+  const transitiveDependents = Array.from(affected).filter((f) => !importers.has(f)).sort();
+
+  return {
+    name,
+    symbols: Array.from(symbols).sort(),
+    directImporters,
+    transitiveDependents,
+    totalAffected: affected.size,
+  };
+}
+
+export function checkPackageDependencies(
+  graph: DependencyGraph,
+  workspace: Workspace = loadWorkspace(graph.projectRoot)
+): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const usedByPackage = new Map<string, Set<string>>();
+  const reported = new Set<string>();
+
+  for (const node of graph.nodes.values()) {
+    const owner = findOwningPackage(path.dirname(node.path), workspace);
+    if (!owner) continue;
+    const manifestPath = path.join(owner.dir, 'package.json');
+
+    let used = usedByPackage.get(owner.dir);
+    if (!used) {
+      used = new Set();
+      usedByPackage.set(owner.dir, used);
+    }
+
+    for (const imp of node.imports) {
+      const name = imp.external ?? imp.workspacePackage;
+      if (!name) continue;
+      used.add(name);
+      if (name === owner.name || declaredIn(owner.manifest, name)) continue;
+
+      const key = manifestPath + '|' + name + '|' + node.path;
+      if (reported.has(key)) continue;
+      reported.add(key);
+      issues.push({
+        kind: 'undeclared',
+        package: name,
+        manifest: manifestPath,
+        file: node.path,
+        line: imp.line,
+        message: `${name} is imported but not declared in ${path.relative(graph.projectRoot, manifestPath) || 'package.json'}`,
+      });
+    }
+  }
+
+  for (const pkg of workspace.packages) {
+    const used = usedByPackage.get(pkg.dir);
+    if (!used) continue;
+    const manifestPath = path.join(pkg.dir, 'package.json');
+
+    for (const field of RUNTIME_FIELDS) {
+      for (const name of Object.keys(pkg.manifest[field] ?? {})) {
+        if (name.startsWith('@types/') || used.has(name)) continue;
+        issues.push({
+          kind: 'unused',
+          package: name,
+          manifest: manifestPath,
+          file: null,
+          line: null,
+          message: `${name} is listed in ${field} of ${path.relative(graph.projectRoot, manifestPath)} but never imported`,
+        });
+      }
+    }
+  }
+
+  return issues.sort((a, b) =>
+    a.kind.localeCompare(b.kind) ||
+    a.manifest.localeCompare(b.manifest) ||
+    a.package.localeCompare(b.package) ||
+    (a.file ?? '').localeCompare(b.file ?? '') ||
+    (a.line ?? 0) - (b.line ?? 0)
+  );
+}
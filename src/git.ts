@@ -0,0 +1,143 @@
+import { execFileSync } from 'node:child_process';
+import * as path from 'node:path';
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    maxBuffer: 256 * 1024 * 1024,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+function splitLines(output: string): string[] {
+  return output.split('\n').map((l) => l.trim()).filter(Boolean);
+}
+
+export function isGitRepo(cwd: string): boolean {
+  try {
+    return git(cwd, ['rev-parse', '--is-inside-work-tree']).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+function hasHead(cwd: string): boolean {
+  try {
+    git(cwd, ['rev-parse', '--verify', 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getChangedFiles(projectRoot: string, baseRef?: string): string[] {
+  if (!isGitRepo(projectRoot)) {
+    throw new Error(`Not a git repository: ${projectRoot}`);
+  }
+
+  const relative = new Set<string>();
+
+  if (baseRef) {
+    for (const f of splitLines(git(projectRoot, ['diff', '--name-only', '--relative', `${baseRef}...HEAD`]))) {
+      relative.add(f);
+    }
+  } else {
+    const diffArgs = hasHead(projectRoot)
+      ? ['diff', '--name-only', '--relative', 'HEAD']
+      : ['diff', '--name-only', '--relative', '--cached'];
+    for (const f of splitLines(git(projectRoot, diffArgs))) relative.add(f);
+    for (const f of splitLines(git(projectRoot, ['ls-files', '--others', '--exclude-standard']))) {
+      relative.add(f);
+    }
+  }
+
+  return Array.from(relative).map((f) => path.resolve(projectRoot, f));
+}
+
+export interface CommitFiles {
+  hash: string;
+  author: string;
+  timestamp: number;
+  files: string[];
+}
+
+export function getCommitHistory(projectRoot: string, maxCommits = 1000): CommitFiles[] {
+  if (!isGitRepo(projectRoot) || !hasHead(projectRoot)) return [];
+
+  const output = git(projectRoot, [
+    'log',
+    '-z',
+    '--no-merges',
+    '--name-only',
+    '--relative',
+    '--format=%x00%H%x09%ae%x09%ct',
+    '-n',
+    String(maxCommits),
+  ]);
+
+  // With -z paths are NUL-terminated and never quoted; the empty field from
+  // the leading %x00 marks the start of each commit header.
+  const commits: CommitFiles[] = [];
+  let current: CommitFiles | null = null;
+  let atHeader = false;
+  for (const field of output.split('\0')) {
+    if (field === '') {
+      atHeader = true;
+    } else if (atHeader) {
+      const [hash, author, timestamp] = field.split('\t');
+      current = { hash, author, timestamp: parseInt(timestamp, 10) * 1000, files: [] };
+      commits.push(current);
+      atHeader = false;
+    } else if (current) {
+      current.files.push(path.resolve(projectRoot, field.replace(/^\n/, '')));
+    }
+  }
+  return commits;
+}
+
+function headCommit(cwd: string): string | null {
+  try {
+    return git(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']).trim();
+  } catch {
+    return null;
+  }
+}
+
+const historyCache = new Map<string, { head: string | null; commits: CommitFiles[] }>();
+
+// Re-reads the history whenever HEAD moves, so long-running servers see new commits.
+export function getCachedCommitHistory(projectRoot: string): CommitFiles[] {
+  const head = headCommit(projectRoot);
+  const cached = historyCache.get(projectRoot);
+  if (cached && cached.head === head) return cached.commits;
+
+  const commits = getCommitHistory(projectRoot);
+  historyCache.set(projectRoot, { head, commits });
+  return commits;
+}
+
+export function checkoutWorktree(projectRoot: string, ref: string, dir: string): string {
+  if (!isGitRepo(projectRoot)) {
+    throw new Error(`Not a git repository: ${projectRoot}`);
+  }
+
+  let commit: string;
+  try {
+    commit = git(projectRoot, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).trim();
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+
+  const prefix = git(projectRoot, ['rev-parse', '--show-prefix']).trim();
+  git(projectRoot, ['worktree', 'add', '--detach', dir, commit]);
+  return path.join(dir, prefix);
+}
+
+export function removeWorktree(projectRoot: string, dir: string): void {
+  try {
+    git(projectRoot, ['worktree', 'remove', '--force', dir]);
+  } catch {
+    git(projectRoot, ['worktree', 'prune']);
+  }
+}
@@ -0,0 +1,64 @@
+import * as path from 'node:path';
+
+const GLOB_CHARS = /[*?{]/;
+const cache = new Map<string, RegExp>();
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+function globSource(glob: string): string {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          re += '(?:.*/)?';
+          i += 2;
+        } else {
+          re += '.*';
+          i++;
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        re += '\\{';
+        continue;
+      }
+      re += '(?:' + glob.slice(i + 1, end).split(',').map(globSource).join('|') + ')';
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return re;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let re = cache.get(glob);
+  if (!re) {
+    let pattern = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!GLOB_CHARS.test(pattern)) pattern += '{,/**}';
+    re = new RegExp('^' + globSource(pattern) + '$');
+    cache.set(glob, re);
+  }
+  return re;
+}
+
+export function matchesGlob(relativePath: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  for (const pattern of list) {
+    if (globToRegExp(pattern).test(relativePath)) return true;
+  }
+  return false;
+}
+
+export function toPosixRelative(projectRoot: string, filePath: string): string {
+  return path.relative(projectRoot, filePath).split(path.sep).join('/');
+}
@@ -1,18 +1,23 @@
+import * as path from 'node:path';
 import type {
   DependencyGraph,
   FileNode,
   ImpactAnalysis,
   CircularDependency,
   GraphSummary,
+  EntryPoint,
 } from './types.js';
+import { DEFAULT_THRESHOLDS, type Thresholds } from './config.js';
 
 export function createGraph(projectRoot: string): DependencyGraph {
   return {
     nodes: new Map(),
     dependents: new Map(),
     dependencies: new Map(),
+    externals: new Map(),
     projectRoot,
     lastUpdate: Date.now(),
+    version: 0,
   };
 }
 
@@ -32,7 +37,16 @@ export function addNode(graph: DependencyGraph, node: FileNode): void {
   }
 
   for (const imp of node.imports) {
-    if (!imp.target) continue;
+    if (imp.external) {
+      let importers = graph.externals.get(imp.external);
+      if (!importers) {
+        importers = new Set();
+        graph.externals.set(imp.external, importers);
+      }
+      importers.add(node.path);
+      continue;
+    }
+    if (!imp.target || imp.unresolved) continue;
 
     graph.dependencies.get(node.path)!.add(imp.target);
 
@@ -47,6 +61,7 @@ export function addNode(graph: DependencyGraph, node: FileNode): void {
   }
 
   graph.lastUpdate = Date.now();
+  graph.version++;
 }
 
 export function removeNode(graph: DependencyGraph, filePath: string): void {
@@ -58,27 +73,32 @@ export function removeNode(graph: DependencyGraph, filePath: string): void {
   graph.dependencies.delete(filePath);
   graph.dependents.delete(filePath);
   graph.lastUpdate = Date.now();
+  graph.version++;
 }
 
 function removeNodeEdges(graph: DependencyGraph, node: FileNode): void {
   for (const imp of node.imports) {
+    if (imp.external) {
+      const importers = graph.externals.get(imp.external);
+      importers?.delete(node.path);
+      if (importers?.size === 0) graph.externals.delete(imp.external);
+      continue;
+    }
     if (!imp.target) continue;
     graph.dependents.get(imp.target)?.delete(node.path);
     graph.dependencies.get(node.path)?.delete(imp.target);
   }
 }
 
-export function getImpact(
+export function collectDependents(
   graph: DependencyGraph,
-  filePath: string
-): ImpactAnalysis {
-  const direct = Array.from(graph.dependents.get(filePath) ?? []);
-
+  seeds: Iterable<string>
+): Set<string> {
   const visited = new Set<string>();
-  const queue = [...direct];
+  const queue = [...seeds];
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
     if (visited.has(current)) continue;
     visited.add(current);
 
@@ -90,6 +110,88 @@ export function getImpact(
     }
   }
 
+  return visited;
+}
+
+export function collectReachable(
+  graph: DependencyGraph,
+  seeds: Iterable<string>
+): Set<string> {
+  const visited = new Set<string>();
+  const queue = [...seeds];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    for (const dep of graph.dependencies.get(current) ?? []) {
+      if (!visited.has(dep)) queue.push(dep);
+    }
+    for (const exp of graph.nodes.get(current)?.exports ?? []) {
+      if (exp.reExportTarget && graph.nodes.has(exp.reExportTarget) && !visited.has(exp.reExportTarget)) {
+        queue.push(exp.reExportTarget);
+      }
+    }
+  }
+
+  return visited;
+}
+
+const JS_EXTENSION = /\.[cm]?jsx?$/;
+const IMPLICIT_SUFFIX = /^(\/index)?\.[^./]+$/;
+
+function importsMissingFile(target: string, filePath: string): boolean {
+  if (filePath.startsWith(target) && IMPLICIT_SUFFIX.test(filePath.slice(target.length))) return true;
+  const ext = path.extname(target);
+  return JS_EXTENSION.test(ext) && target.slice(0, -ext.length) === filePath.slice(0, -path.extname(filePath).length);
+}
+
+export function findImporters(graph: DependencyGraph, filePath: string): Set<string> {
+  const importers = new Set(graph.dependents.get(filePath) ?? []);
+  if (graph.nodes.has(filePath)) return importers;
+
+  // A deleted file has no node; its importers still hold unresolved edges to it.
+  for (const node of graph.nodes.values()) {
+    for (const imp of node.imports) {
+      if (imp.target === filePath || (imp.unresolved === 'missing-file' && importsMissingFile(imp.target, filePath))) {
+        importers.add(node.path);
+      }
+    }
+  }
+  return importers;
+}
+
+export function getDependentDistances(
+  graph: DependencyGraph,
+  filePath: string
+): Map<string, number> {
+  const distances = new Map<string, number>([[filePath, 0]]);
+  let frontier = [filePath];
+
+  for (let distance = 1; frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const dep of findImporters(graph, current)) {
+        if (distances.has(dep)) continue;
+        distances.set(dep, distance);
+        next.push(dep);
+      }
+    }
+    frontier = next;
+  }
+
+  return distances;
+}
+
+export function getImpact(
+  graph: DependencyGraph,
+  filePath: string
+): ImpactAnalysis {
+  const direct = Array.from(graph.dependents.get(filePath) ?? []).filter((f) => f !== filePath);
+  const visited = collectDependents(graph, direct);
+  visited.delete(filePath);
+
   const transitive = Array.from(visited).filter((f) => !direct.includes(f));
 
   const node = graph.nodes.get(filePath);
@@ -106,88 +208,348 @@ export function getImpact(
       })
       .map((e) => e.name) ?? [];
 
+  const byOwner = new Map<string, string[]>();
+  const unownedFiles: string[] = [];
+  for (const dep of [...direct, ...transitive]) {
+    const owners = graph.nodes.get(dep)?.owners ?? [];
+    if (owners.length === 0) unownedFiles.push(dep);
+    for (const owner of owners) {
+      const files = byOwner.get(owner) ?? [];
+      files.push(dep);
+      byOwner.set(owner, files);
+    }
+  }
+  const affectedOwners = Array.from(byOwner, ([owner, files]) => ({ owner, files }))
+    .sort((a, b) => b.files.length - a.files.length || a.owner.localeCompare(b.owner));
+
   return {
     file: filePath,
+    owners: node?.owners ?? [],
     directDependents: direct,
     transitiveDependents: transitive,
     totalAffected: direct.length + transitive.length,
     criticalExports,
+    affectedOwners,
+    teamsAffected: affectedOwners.length,
+    unownedFiles,
   };
 }
 
-export function detectCircularDependencies(
-  graph: DependencyGraph
-): CircularDependency[] {
-  const cycles: CircularDependency[] = [];
-  const visited = new Set<string>();
-  const inStack = new Set<string>();
-  const cycleSet = new Set<string>();
-
-  function dfs(node: string, path: string[]): void {
-    visited.add(node);
-    inStack.add(node);
-
-    const deps = graph.dependencies.get(node) ?? new Set();
-    for (const dep of deps) {
-      if (!graph.nodes.has(dep)) continue;
-
-      if (!visited.has(dep)) {
-        dfs(dep, [...path, node]);
-      } else if (inStack.has(dep)) {
-        const cycleStart = path.indexOf(dep);
-        const cycle = cycleStart >= 0
-          ? [...path.slice(cycleStart), node, dep]
-          : [...path, node, dep];
-
-        const cycleKey = [...cycle].sort().join('|');
-        if (!cycleSet.has(cycleKey)) {
-          cycleSet.add(cycleKey);
-          cycles.push({ cycle });
+function internalDependencies(graph: DependencyGraph, filePath: string): string[] {
+  const deps: string[] = [];
+  for (const dep of graph.dependencies.get(filePath) ?? []) {
+    if (graph.nodes.has(dep)) deps.push(dep);
+  }
+  return deps;
+}
+
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of graph.nodes.keys()) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ node: string; deps: string[]; next: number }> = [];
+    const enter = (node: string) => {
+      index.set(node, counter);
+      low.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, deps: internalDependencies(graph, node), next: 0 });
+    };
+
+    enter(root);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+
+      if (frame.next < frame.deps.length) {
+        const dep = frame.deps[frame.next++];
+        if (!index.has(dep)) {
+          enter(dep);
+        } else if (onStack.has(dep)) {
+          low.set(frame.node, Math.min(low.get(frame.node)!, index.get(dep)!));
         }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        low.set(parent, Math.min(low.get(parent)!, low.get(frame.node)!));
+      }
+
+      if (low.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
       }
     }
+  }
+
+  return components;
+}
 
-    inStack.delete(node);
+const MAX_CYCLES_PER_COMPONENT = 5;
+const MAX_CYCLE_SEARCHES = 50;
+
+function shortestCycleThrough(
+  graph: DependencyGraph,
+  start: string,
+  members: Set<string>
+): string[] | null {
+  const parent = new Map<string, string>();
+  const queue = [start];
+  const visited = new Set([start]);
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    for (const dep of internalDependencies(graph, current)) {
+      if (!members.has(dep)) continue;
+      if (dep === start) {
+        const cycle = [start];
+        for (let n: string | undefined = current; n !== undefined && n !== start; n = parent.get(n)) {
+          cycle.splice(1, 0, n);
+        }
+        cycle.push(start);
+        return cycle;
+      }
+      if (visited.has(dep)) continue;
+      visited.add(dep);
+      parent.set(dep, current);
+      queue.push(dep);
+    }
+  }
+
+  return null;
+}
+
+function cycleKey(cycle: string[]): string {
+  const open = cycle.slice(0, -1);
+  let min = 0;
+  for (let i = 1; i < open.length; i++) {
+    if (open[i] < open[min]) min = i;
+  }
+  return [...open.slice(min), ...open.slice(0, min)].join('|');
+}
+
+function representativeCycles(graph: DependencyGraph, files: string[]): string[][] {
+  const members = new Set(files);
+  const byFanIn = [...files].sort(
+    (a, b) => (graph.dependents.get(b)?.size ?? 0) - (graph.dependents.get(a)?.size ?? 0)
+  );
+
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  for (const start of byFanIn.slice(0, MAX_CYCLE_SEARCHES)) {
+    const cycle = shortestCycleThrough(graph, start, members);
+    if (!cycle) continue;
+    const key = cycleKey(cycle);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cycles.push(cycle);
+    if (cycles.length >= MAX_CYCLES_PER_COMPONENT) break;
   }
 
-  for (const nodePath of graph.nodes.keys()) {
-    if (!visited.has(nodePath)) {
-      dfs(nodePath, []);
+  return cycles.sort((a, b) => a.length - b.length);
+}
+
+export function detectCircularDependencies(
+  graph: DependencyGraph,
+  components: string[][] = findStronglyConnectedComponents(graph)
+): CircularDependency[] {
+  const result: CircularDependency[] = [];
+
+  for (const files of components) {
+    const isSelfLoop = files.length === 1 && graph.dependencies.get(files[0])?.has(files[0]);
+    if (files.length < 2 && !isSelfLoop) continue;
+
+    const members = new Set(files);
+    const edges: Array<{ source: string; target: string }> = [];
+    for (const source of files) {
+      for (const target of internalDependencies(graph, source)) {
+        if (members.has(target)) edges.push({ source, target });
+      }
     }
+
+    const cycles = representativeCycles(graph, files);
+    result.push({
+      cycle: cycles[0] ?? [...files, files[0]],
+      files,
+      edges,
+      cycles,
+      size: files.length,
+    });
   }
 
-  return cycles;
+  return result.sort((a, b) => b.size - a.size || b.edges.length - a.edges.length);
 }
 
-export function computeMaxDepth(
-  graph: DependencyGraph
-): { maxDepth: number; path: string[] } {
-  let maxDepth = 0;
-  let maxPath: string[] = [];
+export interface DepthAnalysis {
+  depth: Map<string, number>;
+  affectedCount: Map<string, number>;
+  maxDepth: number;
+  maxDepthPath: string[];
+  avgDepth: number;
+}
+
+const REACH_BLOCK_BITS = 2048;
+
+function popcount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
 
-  function dfs(node: string, path: string[], visited: Set<string>): void {
-    if (path.length > maxDepth) {
-      maxDepth = path.length;
-      maxPath = [...path];
+export function analyzeDepth(
+  graph: DependencyGraph,
+  components: string[][] = findStronglyConnectedComponents(graph)
+): DepthAnalysis {
+  // Tarjan emits components dependencies-first, so index order is a
+  // topological order of the condensation with sinks at 0.
+  const count = components.length;
+  const componentOf = new Map<string, number>();
+  components.forEach((files, c) => {
+    for (const f of files) componentOf.set(f, c);
+  });
+
+  const dependencyComponents: number[][] = [];
+  const dependentComponents: number[][] = Array.from({ length: count }, () => []);
+  const edgeTo: Array<Map<number, [string, string]>> = [];
+  for (let c = 0; c < count; c++) {
+    const targets = new Map<number, [string, string]>();
+    for (const file of components[c]) {
+      for (const dep of internalDependencies(graph, file)) {
+        const d = componentOf.get(dep)!;
+        if (d !== c && !targets.has(d)) targets.set(d, [file, dep]);
+      }
     }
+    edgeTo.push(targets);
+    dependencyComponents.push(Array.from(targets.keys()));
+    for (const d of targets.keys()) dependentComponents[d].push(c);
+  }
 
-    const deps = graph.dependencies.get(node) ?? new Set();
-    for (const dep of deps) {
-      if (!graph.nodes.has(dep) || visited.has(dep)) continue;
-      visited.add(dep);
-      dfs(dep, [...path, dep], visited);
-      visited.delete(dep);
+  // Longest dependency chain, counting each component as one level.
+  const levels = new Int32Array(count);
+  const next = new Int32Array(count).fill(-1);
+  for (let c = 0; c < count; c++) {
+    let best = 0;
+    for (const d of dependencyComponents[c]) {
+      if (levels[d] > best) {
+        best = levels[d];
+        next[c] = d;
+      }
     }
+    levels[c] = best + 1;
   }
 
-  for (const nodePath of graph.nodes.keys()) {
-    dfs(nodePath, [nodePath], new Set([nodePath]));
+  // Transitive dependents per component, processed in blocks of bitsets so
+  // memory stays bounded: only components at or above a block (in
+  // dependents-first order) can have ancestors inside it.
+  const ancestors = new Float64Array(count);
+  const words = REACH_BLOCK_BITS >>> 5;
+  const topo = Array.from({ length: count }, (_, i) => count - 1 - i);
+  const position = new Int32Array(count);
+  topo.forEach((c, i) => { position[c] = i; });
+
+  for (let blockStart = 0; blockStart < count; blockStart += REACH_BLOCK_BITS) {
+    const blockEnd = Math.min(blockStart + REACH_BLOCK_BITS, count);
+    const bits = new Uint32Array((count - blockStart) * words);
+    const nonEmpty = new Uint8Array(count - blockStart);
+    const weighted: Array<{ bit: number; extra: number }> = [];
+
+    for (let i = blockStart; i < blockEnd; i++) {
+      const bit = i - blockStart;
+      bits[bit * words + (bit >>> 5)] |= 1 << (bit & 31);
+      nonEmpty[bit] = 1;
+      const extra = components[topo[i]].length - 1;
+      if (extra > 0) weighted.push({ bit, extra });
+    }
+
+    for (let i = blockStart; i < count; i++) {
+      const row = (i - blockStart) * words;
+      for (const u of dependentComponents[topo[i]]) {
+        const j = position[u];
+        if (j < blockStart || !nonEmpty[j - blockStart]) continue;
+        const from = (j - blockStart) * words;
+        for (let w = 0; w < words; w++) bits[row + w] |= bits[from + w];
+        nonEmpty[i - blockStart] = 1;
+      }
+      if (!nonEmpty[i - blockStart]) continue;
+
+      let total = 0;
+      for (let w = 0; w < words; w++) {
+        const word = bits[row + w];
+        if (word !== 0) total += popcount(word);
+      }
+      for (const { bit, extra } of weighted) {
+        if (bits[row + (bit >>> 5)] & (1 << (bit & 31))) total += extra;
+      }
+      ancestors[topo[i]] += total;
+    }
+  }
+
+  const depth = new Map<string, number>();
+  const affectedCount = new Map<string, number>();
+  let maxDepth = 0;
+  let deepest = -1;
+  let depthTotal = 0;
+
+  for (let c = 0; c < count; c++) {
+    for (const f of components[c]) {
+      depth.set(f, levels[c]);
+      affectedCount.set(f, ancestors[c] - 1);
+      depthTotal += levels[c];
+    }
+    if (levels[c] > maxDepth) {
+      maxDepth = levels[c];
+      deepest = c;
+    }
   }
 
-  return { maxDepth, path: maxPath };
+  const maxDepthPath: string[] = [];
+  for (let c = deepest; c !== -1; c = next[c]) {
+    const d = next[c];
+    if (d === -1) {
+      if (maxDepthPath.length === 0) maxDepthPath.push(components[c][0]);
+      break;
+    }
+    const [from, to] = edgeTo[c].get(d)!;
+    if (maxDepthPath.length === 0) maxDepthPath.push(from);
+    maxDepthPath.push(to);
+  }
+
+  return {
+    depth,
+    affectedCount,
+    maxDepth,
+    maxDepthPath,
+    avgDepth: graph.nodes.size > 0 ? depthTotal / graph.nodes.size : 0,
+  };
 }
 
-export function getSummary(graph: DependencyGraph): GraphSummary {
+export function computeMaxDepth(
+  graph: DependencyGraph
+): { maxDepth: number; path: string[] } {
+  const { maxDepth, maxDepthPath } = analyzeDepth(graph);
+  return { maxDepth, path: maxDepthPath };
+}
+
+export function getSummary(
+  graph: DependencyGraph,
+  entryPoints: EntryPoint[] = [],
+  thresholds: Thresholds = DEFAULT_THRESHOLDS
+): GraphSummary {
   const totalFiles = graph.nodes.size;
 
   let totalEdges = 0;
@@ -195,7 +557,7 @@ export function getSummary(graph: DependencyGraph): GraphSummary {
     totalEdges += deps.size;
   }
 
-  const orphanFiles: string[] = [];
+  const unreachableFiles: string[] = [];
   const godModules: Array<{ path: string; dependentCount: number }> = [];
   const highImpactFiles: Array<{ path: string; affectedCount: number }> = [];
 
@@ -209,8 +571,8 @@ export function getSummary(graph: DependencyGraph): GraphSummary {
     const count = deps.size;
     totalDependents += count;
 
-    if (count === 0) {
-      orphanFiles.push(filePath);
+    if (count === 0 && entryPoints.length === 0) {
+      unreachableFiles.push(filePath);
     }
 
     if (count > maxDependents) {
@@ -218,17 +580,27 @@ export function getSummary(graph: DependencyGraph): GraphSummary {
       maxDependentsFile = filePath;
     }
 
-    if (count >= 20) {
+    if (count >= thresholds.godModule) {
       godModules.push({ path: filePath, dependentCount: count });
     }
   }
 
   godModules.sort((a, b) => b.dependentCount - a.dependentCount);
 
-  for (const filePath of graph.nodes.keys()) {
-    const impact = getImpact(graph, filePath);
-    if (impact.totalAffected >= 10) {
-      highImpactFiles.push({ path: filePath, affectedCount: impact.totalAffected });
+  if (entryPoints.length > 0) {
+    const reachable = collectReachable(graph, entryPoints.map((e) => e.file));
+    for (const filePath of graph.nodes.keys()) {
+      if (!reachable.has(filePath)) unreachableFiles.push(filePath);
+    }
+    unreachableFiles.sort();
+  }
+
+  const components = findStronglyConnectedComponents(graph);
+  const { affectedCount, maxDepth, maxDepthPath, avgDepth } = analyzeDepth(graph, components);
+
+  for (const [filePath, affected] of affectedCount) {
+    if (affected >= thresholds.highImpact) {
+      highImpactFiles.push({ path: filePath, affectedCount: affected });
     }
   }
 
@@ -236,21 +608,21 @@ export function getSummary(graph: DependencyGraph): GraphSummary {
 
   const avgDependentsPerFile = totalFiles > 0 ? totalDependents / totalFiles : 0;
 
-  const circularDependencies = detectCircularDependencies(graph);
-  const { maxDepth, path: maxDepthPath } = computeMaxDepth(graph);
-
-  const avgDepth = maxDepth / 2;
+  const circularDependencies = detectCircularDependencies(graph, components);
 
   return {
     totalFiles,
     totalEdges,
+    externalPackages: graph.externals.size,
     avgDependentsPerFile,
     maxDependents,
     maxDependentsFile,
     avgDepth,
     maxDepth,
     maxDepthPath,
-    orphanFiles,
+    entryPoints,
+    unreachableFiles,
+    thresholds: { godModule: thresholds.godModule, highImpact: thresholds.highImpact },
     godModules,
     circularDependencies,
     highImpactFiles,
@@ -278,11 +650,34 @@ export function serializeGraph(graph: DependencyGraph): object {
     }
   }
 
+  const externals = Array.from(graph.externals, ([name, importers]) => ({
+    name,
+    importers: Array.from(importers),
+  })).sort((a, b) => b.importers.length - a.importers.length || a.name.localeCompare(b.name));
+
   return {
     version: '0.1.0',
     projectRoot: graph.projectRoot,
     lastUpdate: graph.lastUpdate,
     nodes,
     edges,
+    externals,
   };
 }
+
+export function deserializeGraph(data: unknown): DependencyGraph {
+  const snapshot = data as { projectRoot?: unknown; lastUpdate?: unknown; nodes?: unknown };
+  if (typeof snapshot?.projectRoot !== 'string' || !Array.isArray(snapshot.nodes)) {
+    throw new Error('Not a whobreaks graph.json: expected projectRoot and nodes');
+  }
+
+  const graph = createGraph(snapshot.projectRoot);
+  for (const { dependentCount, dependencyCount, ...node } of snapshot.nodes as Array<FileNode & {
+    dependentCount?: number;
+    dependencyCount?: number;
+  }>) {
+    addNode(graph, node);
+  }
+  if (typeof snapshot.lastUpdate === 'number') graph.lastUpdate = snapshot.lastUpdate;
+  return graph;
+}
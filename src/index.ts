@@ -1,16 +1,34 @@
 #!/usr/bin/env node
 import * as path from 'node:path';
-import { scanProject, persistGraph } from './scanner.js';
+import { existsSync } from 'node:fs';
+import {
+  scanProject,
+  analyzeGraph,
+  persistGraph,
+  persistDiffImpact,
+  persistAnalyzerDiff,
+  persistGraphComparison,
+  createFileFilter,
+} from './scanner.js';
 import { printScanResult } from './reporter.js';
+import type { DependencyGraph, ScanOptions } from './types.js';
+import type { CoChangeOptions } from './cochange.js';
 
 function resolveProjectRoot(arg?: string): string {
   if (!arg || arg === '.') return process.cwd();
   return path.resolve(process.cwd(), arg);
 }
 
+const PATH_COMMANDS = new Set(['scan', 'watch', 'mcp', 'cycles', 'analyzers', 'cochange', 'check', 'export']);
+const KNOWN_COMMANDS = new Set([...PATH_COMMANDS, 'impact', 'diff', 'affected-tests', 'compare']);
+const BOOLEAN_FLAGS = new Set([
+  'no-cache', 'precise', 'suggest', 'changed', 'update-baseline', 'cycles', 'collapse', 'cochange', 'help', 'h',
+]);
+
 function parseArgs(argv: string[]): {
   command: string;
   projectRoot: string;
+  args: string[];
   flags: Record<string, string | boolean>;
 } {
   const args = argv.slice(2);
@@ -22,7 +40,7 @@ function parseArgs(argv: string[]): {
     if (arg.startsWith('--')) {
       const key = arg.slice(2);
       const next = args[i + 1];
-      if (next && !next.startsWith('--')) {
+      if (!BOOLEAN_FLAGS.has(key) && next && !next.startsWith('--')) {
         flags[key] = next;
         i++;
       } else {
@@ -33,64 +51,371 @@ function parseArgs(argv: string[]): {
     }
   }
 
-  const knownCommands = new Set(['scan', 'watch', 'mcp']);
   const firstArg = positional[0];
-  const command = firstArg && knownCommands.has(firstArg) ? firstArg : 'scan';
-  const pathArg = knownCommands.has(firstArg ?? '') ? positional[1] : positional[0];
-  const projectRoot = resolveProjectRoot(pathArg);
+  const isKnown = !!firstArg && KNOWN_COMMANDS.has(firstArg);
+  const command = isKnown ? firstArg : 'scan';
+  const rest = isKnown ? positional.slice(1) : positional;
+
+  if (PATH_COMMANDS.has(command)) {
+    return { command, projectRoot: resolveProjectRoot(rest[0]), args: rest.slice(1), flags };
+  }
+
+  const rootFlag = typeof flags['root'] === 'string' ? flags['root'] : undefined;
+  return { command, projectRoot: resolveProjectRoot(rootFlag), args: rest, flags };
+}
+
+function listFlag(value: string | boolean | undefined): string[] | undefined {
+  return typeof value === 'string' ? value.split(',').map((p) => p.trim()).filter(Boolean) : undefined;
+}
 
-  return { command, projectRoot, flags };
+function scanOptions(projectRoot: string, flags: Record<string, string | boolean>): ScanOptions {
+  return {
+    projectRoot,
+    include: listFlag(flags['include']),
+    exclude: listFlag(flags['exclude']),
+    maxFiles: flags['max-files'] ? parseInt(flags['max-files'] as string, 10) : undefined,
+    cache: !flags['no-cache'],
+    workers: flags['workers'] ? parseInt(flags['workers'] as string, 10) : undefined,
+    precise: !!flags['precise'],
+  };
 }
 
 async function runScan(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
-  const maxFiles = flags['max-files'] ? parseInt(flags['max-files'] as string, 10) : undefined;
   const port = flags['port'] ? parseInt(flags['port'] as string, 10) : undefined;
 
-  const result = await scanProject({ projectRoot, maxFiles });
+  const result = await scanProject(scanOptions(projectRoot, flags));
 
   printScanResult(result, projectRoot);
-  persistGraph(result.graph, projectRoot);
+  persistGraph(result, projectRoot);
+
+  if (result.violations.some((v) => v.severity === 'error')) {
+    process.exitCode = 1;
+  }
 
   if (port) {
     const { createApiServer } = await import('./server.js');
     const graphRef = { current: result.graph };
-    createApiServer(graphRef, port).listen();
+    createApiServer(graphRef, result.config, port).listen();
     process.stdout.write('  Press Ctrl+C to stop.\n\n');
     process.on('SIGINT', () => { process.stdout.write('\n  Stopped.\n\n'); process.exit(0); });
     await new Promise(() => {});
   }
 }
 
+function commitLimit(flags: Record<string, string | boolean>): number | undefined {
+  return flags['commits'] ? parseInt(flags['commits'] as string, 10) : undefined;
+}
+
+function coChangeOptions(flags: Record<string, string | boolean>): CoChangeOptions {
+  return {
+    minSupport: flags['min-support'] ? parseInt(flags['min-support'] as string, 10) : undefined,
+    minConfidence: flags['min-confidence'] ? parseFloat(flags['min-confidence'] as string) : undefined,
+  };
+}
+
+async function runImpact(
+  projectRoot: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  const { printImpact, printSymbolImpact, printPackageImpact } = await import('./reporter.js');
+  const { getImpact } = await import('./graph.js');
+  const { getCommitHistory } = await import('./git.js');
+  const { analyzeCoChange, withCoChanged } = await import('./cochange.js');
+  const { getSymbolImpact } = await import('./symbols.js');
+  const { getPackageImpact } = await import('./externals.js');
+
+  const [file, symbol] = args;
+  if (!file) throw new Error('Usage: whobreaks impact <file|package> [export]');
+
+  const { graph } = await scanProject(scanOptions(projectRoot, flags));
+
+  const absPath = path.resolve(projectRoot, file);
+  if (!graph.nodes.has(absPath)) {
+    if (!graph.externals.has(file) && existsSync(absPath)) throw new Error(`File not in graph: ${file}`);
+    printPackageImpact(getPackageImpact(graph, file), projectRoot);
+    return;
+  }
+
+  if (symbol) {
+    printSymbolImpact(getSymbolImpact(graph, absPath, symbol), projectRoot);
+  } else if (flags['cochange']) {
+    const report = analyzeCoChange(graph, getCommitHistory(projectRoot, commitLimit(flags)), coChangeOptions(flags));
+    printImpact(withCoChanged(getImpact(graph, absPath), report), projectRoot);
+  } else {
+    printImpact(getImpact(graph, absPath), projectRoot);
+  }
+}
+
+async function runDiff(
+  projectRoot: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  const { printDiffImpact } = await import('./reporter.js');
+  const { getChangedFiles } = await import('./git.js');
+  const { getDiffImpact } = await import('./diff.js');
+
+  const [baseRef] = args;
+  const changedFiles = getChangedFiles(projectRoot, baseRef);
+
+  const result = await scanProject(scanOptions(projectRoot, flags));
+  persistGraph(result, projectRoot);
+
+  const diff = getDiffImpact(result.graph, changedFiles, baseRef ?? null);
+  persistDiffImpact(diff, projectRoot);
+  printDiffImpact(diff, projectRoot);
+}
+
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+async function runAffectedTests(
+  projectRoot: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  const { getChangedFiles } = await import('./git.js');
+  const { findAffectedTests } = await import('./affected.js');
+  const { loadConfig } = await import('./config.js');
+
+  const baseRef = typeof flags['base'] === 'string' ? flags['base'] : undefined;
+  const fromGit = args.length === 0 || !!flags['changed'] || !!baseRef;
+  const changedFiles = fromGit
+    ? getChangedFiles(projectRoot, baseRef)
+    : args.map((f) => path.resolve(projectRoot, f));
+
+  const { graph } = await scanProject(scanOptions(projectRoot, flags));
+  const result = findAffectedTests(graph, changedFiles, loadConfig(projectRoot).testPatterns);
+  const tests = result.tests.map((t) => path.relative(projectRoot, t.file));
+
+  const format = typeof flags['format'] === 'string' ? flags['format'] : 'lines';
+  switch (format) {
+    case 'json':
+      process.stdout.write(JSON.stringify({
+        changedFiles: result.changedFiles.map((f) => path.relative(projectRoot, f)),
+        unanalyzedFiles: result.unanalyzedFiles.map((f) => path.relative(projectRoot, f)),
+        tests: result.tests.map((t) => ({
+          ...t,
+          file: path.relative(projectRoot, t.file),
+          changedBy: t.changedBy.map((f) => path.relative(projectRoot, f)),
+        })),
+      }, null, 2) + '\n');
+      break;
+    case 'args':
+      if (tests.length > 0) process.stdout.write(tests.map(shellQuote).join(' ') + '\n');
+      break;
+    case 'lines':
+      if (tests.length > 0) process.stdout.write(tests.join('\n') + '\n');
+      break;
+    default:
+      throw new Error(`Unknown --format: ${format} (expected lines, args or json)`);
+  }
+
+  if (result.unanalyzedFiles.length > 0 && format !== 'json') {
+    process.stderr.write(`whobreaks: ${result.unanalyzedFiles.length} changed file(s) are not in the graph (deleted or not source); only their importers were followed\n`);
+  }
+}
+
+async function loadComparedGraph(
+  projectRoot: string,
+  source: string,
+  flags: Record<string, string | boolean>
+): Promise<DependencyGraph> {
+  const { loadGraphSnapshot } = await import('./compare.js');
+  const { checkoutWorktree, removeWorktree } = await import('./git.js');
+  const { mkdtempSync, rmSync } = await import('node:fs');
+  const os = await import('node:os');
+
+  const snapshot = path.resolve(process.cwd(), source);
+  if (source.endsWith('.json') && existsSync(snapshot)) return loadGraphSnapshot(snapshot);
+
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'whobreaks-'));
+  const worktree = path.join(dir, 'tree');
+  try {
+    const root = checkoutWorktree(projectRoot, source, worktree);
+    try {
+      const { graph } = await scanProject({ ...scanOptions(root, flags), cache: false });
+      return graph;
+    } finally {
+      removeWorktree(projectRoot, worktree);
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function runCompare(
+  projectRoot: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  const { printGraphComparison } = await import('./reporter.js');
+  const { compareGraphs } = await import('./compare.js');
+  const { loadConfig } = await import('./config.js');
+
+  const [before, after] = args;
+  if (!before) throw new Error('Usage: whobreaks compare <graph.json|ref> [graph.json|ref]');
+
+  const beforeGraph = await loadComparedGraph(projectRoot, before, flags);
+  const afterGraph = after
+    ? await loadComparedGraph(projectRoot, after, flags)
+    : (await scanProject(scanOptions(projectRoot, flags))).graph;
+
+  const comparison = compareGraphs(
+    beforeGraph,
+    afterGraph,
+    { before, after: after ?? 'working tree' },
+    loadConfig(projectRoot).thresholds
+  );
+  persistGraphComparison(comparison, projectRoot);
+  printGraphComparison(comparison, projectRoot);
+}
+
+async function runCycles(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
+  const { printCycles } = await import('./reporter.js');
+  const { detectCircularDependencies } = await import('./graph.js');
+  const { suggestCycleBreaks } = await import('./cycles.js');
+
+  const { graph } = await scanProject(scanOptions(projectRoot, flags));
+
+  const circular = detectCircularDependencies(graph);
+  const plans = flags['suggest'] ? suggestCycleBreaks(graph, circular) : null;
+  printCycles(circular, plans, projectRoot);
+}
+
+async function runCoChange(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
+  const { printCoChange } = await import('./reporter.js');
+  const { getCommitHistory } = await import('./git.js');
+  const { analyzeCoChange } = await import('./cochange.js');
+
+  const commits = getCommitHistory(projectRoot, commitLimit(flags));
+  if (commits.length === 0) throw new Error(`No git history found in ${projectRoot}`);
+
+  const { graph } = await scanProject(scanOptions(projectRoot, flags));
+  printCoChange(analyzeCoChange(graph, commits, coChangeOptions(flags)), projectRoot);
+}
+
+async function runCheck(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
+  const { printCheckResult } = await import('./reporter.js');
+  const { checkBudgets, loadBaseline, saveBaseline, applyBaseline } = await import('./check.js');
+  const { getChangedFiles, isGitRepo } = await import('./git.js');
+  const { loadConfig } = await import('./config.js');
+
+  const { budgets } = loadConfig(projectRoot);
+  const baselineFile = path.resolve(projectRoot, typeof flags['baseline'] === 'string' ? flags['baseline'] : budgets.baseline);
+  const baseRef = typeof flags['base'] === 'string' ? flags['base'] : undefined;
+  const format = typeof flags['format'] === 'string' ? flags['format'] : 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unknown --format: ${format} (expected text or json)`);
+  }
+
+  const changedFiles = budgets.maxImpact !== undefined && isGitRepo(projectRoot)
+    ? getChangedFiles(projectRoot, baseRef)
+    : [];
+  if (budgets.maxImpact !== undefined && !baseRef && changedFiles.length === 0) {
+    process.stderr.write('whobreaks: maxImpact was not checked because there are no uncommitted changes; pass --base <ref> in CI\n');
+  }
+
+  const { graph, summary, violations } = await scanProject(scanOptions(projectRoot, flags));
+  const failures = checkBudgets(graph, summary, violations, budgets, changedFiles);
+
+  const baseline = flags['update-baseline'] ? saveBaseline(baselineFile, failures) : loadBaseline(baselineFile);
+  const result = applyBaseline(failures, baseline, path.relative(projectRoot, baselineFile));
+
+  if (format === 'json') {
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+  } else {
+    printCheckResult(result, !!flags['update-baseline']);
+  }
+
+  if (!result.passed) process.exitCode = 1;
+}
+
+async function runExport(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
+  const { exportGraph, EXPORT_FORMATS } = await import('./export.js');
+  const { writeFileSync } = await import('node:fs');
+
+  const format = typeof flags['format'] === 'string' ? flags['format'] : 'dot';
+  if (!EXPORT_FORMATS.includes(format as (typeof EXPORT_FORMATS)[number])) {
+    throw new Error(`Unknown --format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  const direction = typeof flags['direction'] === 'string' ? flags['direction'] : 'both';
+  if (direction !== 'up' && direction !== 'down' && direction !== 'both') {
+    throw new Error(`Unknown --direction: ${direction} (expected up, down or both)`);
+  }
+
+  const { graph } = await scanProject(scanOptions(projectRoot, flags));
+  const output = exportGraph(graph, {
+    format: format as (typeof EXPORT_FORMATS)[number],
+    focus: typeof flags['focus'] === 'string' ? path.resolve(projectRoot, flags['focus']) : undefined,
+    depth: flags['depth'] ? parseInt(flags['depth'] as string, 10) : undefined,
+    direction,
+    dir: typeof flags['dir'] === 'string' ? path.resolve(projectRoot, flags['dir']) : undefined,
+    cyclesOnly: !!flags['cycles'],
+    collapse: !!flags['collapse'],
+  });
+
+  if (typeof flags['out'] === 'string') {
+    writeFileSync(path.resolve(process.cwd(), flags['out']), output, 'utf-8');
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function runAnalyzers(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
+  const { printAnalyzerComparison } = await import('./reporter.js');
+  const { compareAnalyzers } = await import('./precise.js');
+
+  const options = scanOptions(projectRoot, flags);
+  const regex = await scanProject({ ...options, precise: false });
+  const precise = await scanProject({ ...options, precise: true });
+
+  const comparison = compareAnalyzers(
+    Array.from(regex.graph.nodes.values()),
+    Array.from(precise.graph.nodes.values())
+  );
+  persistAnalyzerDiff(comparison, projectRoot);
+  printAnalyzerComparison(comparison, projectRoot);
+}
+
 async function runWatch(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
   const { printWatchHeader, printWatchEvent } = await import('./reporter.js');
-  const { analyzeFile, loadPathAliases } = await import('./analyzer.js');
+  const { analyzeFile, loadResolverContext } = await import('./analyzer.js');
   const { addNode, removeNode } = await import('./graph.js');
   const { createApiServer } = await import('./server.js');
+  const { toPosixRelative } = await import('./glob.js');
   const chokidar = await import('chokidar');
 
   const port = flags['port'] ? parseInt(flags['port'] as string, 10) : 3001;
-  const maxFiles = flags['max-files'] ? parseInt(flags['max-files'] as string, 10) : undefined;
 
   printWatchHeader(projectRoot);
   process.stdout.write('  Running initial scan...\n\n');
 
-  const result = await scanProject({ projectRoot, maxFiles });
+  const options = scanOptions(projectRoot, flags);
+  const result = await scanProject(options);
   printScanResult(result, projectRoot);
-  persistGraph(result.graph, projectRoot);
+  persistGraph(result, projectRoot);
 
-  const { graph } = result;
+  const { graph, config } = result;
   const graphRef = { current: graph };
 
-  const api = createApiServer(graphRef, port);
+  const api = createApiServer(graphRef, config, port);
   api.listen();
   process.stdout.write('\n');
 
-  const aliases = loadPathAliases(projectRoot);
+  const filter = createFileFilter(config, options);
+  const resolver = loadResolverContext(projectRoot);
+  const preciseAnalyzer = flags['precise']
+    ? await (await import('./precise.js')).createPreciseAnalyzer(projectRoot)
+    : null;
 
   let debounceTimer: NodeJS.Timeout | null = null;
   const pendingChanges = new Map<string, 'change' | 'add' | 'unlink'>();
 
   function queueChange(filePath: string, event: 'change' | 'add' | 'unlink'): void {
+    if (!filter.accepts(toPosixRelative(projectRoot, path.resolve(projectRoot, filePath)))) return;
     const absPath = path.join(projectRoot, filePath);
     pendingChanges.set(absPath, event);
     printWatchEvent(event, absPath, projectRoot);
@@ -107,26 +432,31 @@ async function runWatch(projectRoot: string, flags: Record<string, string | bool
         removeNode(graph, absPath);
         continue;
       }
-      const node = analyzeFile(absPath, projectRoot, aliases, new Set(graph.nodes.keys()));
+      const knownFiles = new Set(graph.nodes.keys());
+      const node = preciseAnalyzer
+        ? preciseAnalyzer.analyze(absPath, knownFiles)
+        : analyzeFile(absPath, projectRoot, resolver, knownFiles);
       if (node) addNode(graph, node);
     }
 
-    persistGraph(graph, projectRoot);
+    persistGraph(analyzeGraph(graph, config, resolver.workspace), projectRoot);
 
     let edgeCount = 0;
     for (const deps of graph.dependencies.values()) edgeCount += deps.size;
     process.stdout.write(`  \x1b[90mGraph updated — ${graph.nodes.size} files, ${edgeCount} edges\x1b[0m\n`);
   }
 
-  const watcher = chokidar.watch(
-    ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mts', '**/*.mjs'],
-    {
-      cwd: projectRoot,
-      ignored: ['node_modules/**', '.whobreaks/**', 'dist/**', 'build/**'],
-      persistent: true,
-      ignoreInitial: true,
-    }
-  );
+  const watcher = chokidar.watch('.', {
+    cwd: projectRoot,
+    ignored: (p, stats) => {
+      const relativePath = toPosixRelative(projectRoot, path.resolve(projectRoot, p));
+      if (!relativePath) return false;
+      if (stats?.isFile()) return !filter.accepts(relativePath);
+      return filter.ignoresDir(relativePath);
+    },
+    persistent: true,
+    ignoreInitial: true,
+  });
 
   watcher
     .on('change', (p) => queueChange(p, 'change'))
@@ -143,14 +473,24 @@ async function runWatch(projectRoot: string, flags: Record<string, string | bool
   });
 }
 
-async function runMcp(projectRoot: string): Promise<void> {
+async function runMcp(projectRoot: string, flags: Record<string, string | boolean>): Promise<void> {
   const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
   const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
   const { z } = await import('zod');
   const { getImpact } = await import('./graph.js');
-
-  const result = await scanProject({ projectRoot });
+  const { getSymbolImpact } = await import('./symbols.js');
+  const { suggestCycleBreaks } = await import('./cycles.js');
+  const { findBrokenImports } = await import('./broken.js');
+  const { getPackageImpact, checkPackageDependencies } = await import('./externals.js');
+  const { findAffectedTests } = await import('./affected.js');
+  const { getCachedCommitHistory } = await import('./git.js');
+  const { analyzeCoChange, withCoChanged } = await import('./cochange.js');
+  const { loadConfig } = await import('./config.js');
+  const { getRiskScores } = await import('./risk.js');
+
+  const result = await scanProject(scanOptions(projectRoot, flags));
   const { graph } = result;
+  const history = getCachedCommitHistory(projectRoot);
 
   const server = new McpServer({
     name: 'whobreaks',
@@ -160,17 +500,29 @@ async function runMcp(projectRoot: string): Promise<void> {
   server.tool(
     'get_impact',
     'Check what files will be affected if you edit this file. Use this before making changes.',
-    { file: z.string().describe('File path relative to project root') },
-    async ({ file }: { file: string }) => {
+    {
+      file: z.string().describe('File path relative to project root'),
+      includeCoChanged: z.boolean().optional().describe('Also list files that historically change together with this one (from git log)'),
+    },
+    async ({ file, includeCoChanged }: { file: string; includeCoChanged?: boolean }) => {
       const absPath = path.resolve(projectRoot, file);
-      const impact = getImpact(graph, absPath);
+      const staticImpact = getImpact(graph, absPath);
+      const impact = includeCoChanged
+        ? withCoChanged(staticImpact, analyzeCoChange(graph, history))
+        : staticImpact;
       const rel = (p: string) => path.relative(projectRoot, p);
+      const coChanged = impact.coChanged && impact.coChanged.length > 0
+        ? `\nHistorically co-changed (${impact.coChanged.length}) — not dependents, but changed together in git:\n` +
+          impact.coChanged.slice(0, 20).map((c) =>
+            `  - ${rel(c.file)} (${c.support} commits, ${Math.round(c.confidence * 100)}%)`
+          ).join('\n')
+        : '';
 
       if (impact.totalAffected === 0) {
         return {
           content: [{
             type: 'text' as const,
-            text: `Editing ${file} affects 0 other files (safe to change).`,
+            text: `Editing ${file} affects 0 other files (safe to change).` + coChanged,
           }],
         };
       }
@@ -192,6 +544,68 @@ async function runMcp(projectRoot: string): Promise<void> {
             impact.criticalExports.length > 0
               ? `\nHigh-usage exports: ${impact.criticalExports.join(', ')}`
               : '',
+            impact.owners.length > 0 ? `\nOwned by: ${impact.owners.join(', ')}` : '',
+            impact.teamsAffected > 0
+              ? `\nTeams affected (${impact.teamsAffected}) — ping before merging:\n` +
+                impact.affectedOwners.map((o) => `  - ${o.owner}: ${o.files.length} files`).join('\n')
+              : '',
+            impact.teamsAffected > 0 && impact.unownedFiles.length > 0
+              ? `  - (no owner): ${impact.unownedFiles.length} files`
+              : '',
+            coChanged,
+          ].filter(Boolean).join('\n'),
+        }],
+      };
+    }
+  );
+
+  server.tool(
+    'get_symbol_impact',
+    'Check which files use a single export, following re-exports through barrel files. Use this before renaming or changing one export.',
+    {
+      file: z.string().describe('File path relative to project root'),
+      symbol: z.string().describe('Export name (use "default" for the default export)'),
+    },
+    async ({ file, symbol }: { file: string; symbol: string }) => {
+      const absPath = path.resolve(projectRoot, file);
+      const impact = getSymbolImpact(graph, absPath, symbol);
+      const rel = (p: string) => path.relative(projectRoot, p);
+
+      if (!impact.exported) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `${file} has no export named ${symbol}.`,
+          }],
+        };
+      }
+
+      if (impact.totalAffected === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Changing ${symbol} in ${file} affects 0 other files (no consumers found).`,
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: [
+            `Changing ${symbol} in ${file} will affect ${impact.totalAffected} files:`,
+            impact.reExportedBy.length > 0
+              ? `\nRe-exported by: ${impact.reExportedBy.map((r) => `${rel(r.file)} (as ${r.name})`).join(', ')}`
+              : '',
+            '',
+            `Direct consumers (${impact.directConsumers.length}):`,
+            ...impact.directConsumers.map((f) => `  - ${rel(f)}`),
+            '',
+            `Transitive dependents (${impact.transitiveDependents.length}):`,
+            ...impact.transitiveDependents.slice(0, 20).map((f) => `  - ${rel(f)}`),
+            impact.transitiveDependents.length > 20
+              ? `  ... +${impact.transitiveDependents.length - 20} more`
+              : '',
           ].filter(Boolean).join('\n'),
         }],
       };
@@ -218,9 +632,8 @@ async function runMcp(projectRoot: string): Promise<void> {
 
       const deps = Array.from(graph.dependencies.get(absPath) ?? []);
       const dependents = Array.from(graph.dependents.get(absPath) ?? []);
-      const riskLevel =
-        dependents.length > 20 ? 'HIGH' :
-        dependents.length > 5 ? 'MEDIUM' : 'LOW';
+      const risk = getRiskScores(graph, loadConfig(projectRoot)).get(absPath)!;
+      const { impact, churn, authors, lines, cycle, fanOut } = risk.factors;
 
       return {
         content: [{
@@ -231,14 +644,155 @@ async function runMcp(projectRoot: string): Promise<void> {
             `Imports from (${deps.length}): ${deps.map(rel).join(', ') || 'nothing'}`,
             `Imported by (${dependents.length}): ${dependents.map(rel).join(', ') || 'nothing'}`,
             `Exports: ${node.exports.map((e) => `${e.name} (${e.kind})`).join(', ') || 'nothing'}`,
-            `Risk level: ${riskLevel} (${dependents.length} dependents)`,
+            `Risk: ${risk.level} (${risk.score}/100) — ${impact.value} files affected, ${churn.value} commits, ${authors.value} authors, ${lines.value} lines${cycle.value ? ', in a cycle' : ''}, ${fanOut.value} imports`,
             `Lines: ${node.linesOfCode}`,
+            `Owners: ${node.owners?.join(', ') || 'none'}`,
           ].join('\n'),
         }],
       };
     }
   );
 
+  server.tool(
+    'suggest_cycle_breaks',
+    'List circular dependency tangles and the cheapest imports to cut to break them, with exact lines and symbols to move.',
+    { file: z.string().optional().describe('Only show the tangle containing this file (relative to project root)') },
+    async ({ file }: { file?: string }) => {
+      const rel = (p: string) => path.relative(projectRoot, p);
+      const absPath = file ? path.resolve(projectRoot, file) : undefined;
+      const plans = suggestCycleBreaks(graph).filter((p) => !absPath || p.files.includes(absPath));
+
+      if (plans.length === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: file ? `${file} is not part of a circular dependency.` : 'No circular dependencies found.',
+          }],
+        };
+      }
+
+      const text = plans.map((plan, i) => [
+        `## Tangle ${i + 1}: ${plan.size} files`,
+        `Files: ${plan.files.map(rel).join(', ')}`,
+        `Cut ${plan.cuts.length} import(s):`,
+        ...plan.cuts.flatMap((cut) => [
+          ...cut.imports.map((imp) =>
+            `  - ${rel(cut.source)}:${imp.line} imports ${imp.symbols.join(', ') || '(side effect)'} from '${imp.rawSpecifier}'${imp.isTypeOnly ? ' (type-only)' : ''}`
+          ),
+          `    ${cut.hint}`,
+        ]),
+      ].join('\n')).join('\n\n');
+
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
+
+  server.tool(
+    'get_broken_imports',
+    'List imports that point at missing files, aliases with no file behind them, or symbols the target does not export.',
+    { file: z.string().optional().describe('Only show broken imports in this file (relative to project root)') },
+    async ({ file }: { file?: string }) => {
+      const rel = (p: string) => path.relative(projectRoot, p);
+      const absPath = file ? path.resolve(projectRoot, file) : undefined;
+      const broken = findBrokenImports(graph).filter((b) => !absPath || b.source === absPath);
+
+      if (broken.length === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: file ? `No broken imports in ${file}.` : 'No broken imports found.',
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: [
+            `${broken.length} broken import(s):`,
+            ...broken.map((b) => `  - ${rel(b.source)}:${b.line} '${b.rawSpecifier}' — ${b.message}`),
+          ].join('\n'),
+        }],
+      };
+    }
+  );
+
+  server.tool(
+    'get_package_impact',
+    'Check which files import an npm package and what depends on them. Use this before upgrading or removing a dependency.',
+    { name: z.string().describe('Package name, e.g. "lodash" or "@scope/pkg"') },
+    async ({ name }: { name: string }) => {
+      const rel = (p: string) => path.relative(projectRoot, p);
+      const impact = getPackageImpact(graph, name);
+      const issues = checkPackageDependencies(graph).filter((d) => d.package === name);
+
+      if (impact.totalAffected === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: [`No file imports ${name}.`, ...issues.map((d) => `${d.kind}: ${d.message}`)].join('\n'),
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: [
+            `Upgrading ${name} can affect ${impact.totalAffected} files:`,
+            impact.symbols.length > 0 ? `\nSymbols used: ${impact.symbols.join(', ')}` : '',
+            '',
+            `Direct importers (${impact.directImporters.length}):`,
+            ...impact.directImporters.map((f) => `  - ${rel(f)}`),
+            '',
+            `Transitive dependents (${impact.transitiveDependents.length}):`,
+            ...impact.transitiveDependents.slice(0, 20).map((f) => `  - ${rel(f)}`),
+            impact.transitiveDependents.length > 20
+              ? `  ... +${impact.transitiveDependents.length - 20} more`
+              : '',
+            ...issues.map((d) => `\n${d.kind}: ${d.message}`),
+          ].filter(Boolean).join('\n'),
+        }],
+      };
+    }
+  );
+
+  server.tool(
+    'get_affected_tests',
+    'List the test files that transitively import the given files. Use this after editing to run only the tests that matter.',
+    { files: z.array(z.string()).describe('Changed file paths relative to project root') },
+    async ({ files }: { files: string[] }) => {
+      const rel = (p: string) => path.relative(projectRoot, p);
+      const result = findAffectedTests(
+        graph,
+        files.map((f) => path.resolve(projectRoot, f)),
+        loadConfig(projectRoot).testPatterns
+      );
+
+      if (result.tests.length === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `No test files import ${files.join(', ')}.`,
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: [
+            `${result.tests.length} test file(s) cover these changes:`,
+            ...result.tests.map((t) => `  - ${rel(t.file)}`),
+            result.unanalyzedFiles.length > 0
+              ? `\nNot in the graph: ${result.unanalyzedFiles.map(rel).join(', ')}`
+              : '',
+          ].filter(Boolean).join('\n'),
+        }],
+      };
+    }
+  );
+
   server.tool(
     'find_related',
     'Find files related to a path pattern or module name',
@@ -282,10 +836,48 @@ function printHelp(): void {
     npx whobreaks [path]              Scan a project (default: current directory)
     npx whobreaks watch [path]        Watch mode + live HTTP API server
     npx whobreaks mcp                 MCP server (uses current directory)
+    npx whobreaks impact <file> [export]
+                                      What breaks if this file (or one export) changes
+    npx whobreaks impact <package>    Which files use an npm package, and what depends on them
+    npx whobreaks diff [base-ref]     Combined impact of uncommitted changes (or base...HEAD)
+    npx whobreaks affected-tests [files...]
+                                      Test files that import the given files (default: git changes)
+    npx whobreaks cycles [path]       List circular dependency tangles
+    npx whobreaks analyzers [path]    Compare the regex and TypeScript compiler analyzers
+    npx whobreaks cochange [path]     Files that change together in git history but share no imports
+    npx whobreaks compare <a> [b]     Architecture drift between two graph.json files or git refs
+    npx whobreaks check [path]        Fail CI when architecture budgets regress against the baseline
+    npx whobreaks export [path]       Dependency diagram as DOT, Mermaid, GraphML, CSV or JSON
 
   ${'\x1b[90m'}Options:${'\x1b[0m'}
     --port <n>                        HTTP API port for watch/serve (default: 3001)
     --max-files <n>                   Limit files scanned
+    --include <globs>                 Only scan files matching these comma-separated globs
+    --exclude <globs>                 Skip files matching these comma-separated globs
+    --no-cache                        Re-analyze every file instead of reusing .whobreaks/cache
+    --workers <n>                     Parser threads (default: one per CPU)
+    --precise                         Analyze with the TypeScript compiler (slower, exact)
+    --root <path>                     Project root for impact/diff/compare (default: current directory)
+    --suggest                         With cycles: suggest the cheapest imports to cut
+    --changed                         With affected-tests: use uncommitted git changes
+    --base <ref>                      With affected-tests/check: use changes in base...HEAD
+    --format <lines|args|json>        With affected-tests: output format (default: lines)
+    --format <text|json>              With check: output format (default: text)
+    --baseline <file>                 With check: baseline file (default: whobreaks.baseline.json)
+    --update-baseline                 With check: accept every current failure into the baseline
+    --format <dot|mermaid|graphml|csv|json>
+                                      With export: output format (default: dot)
+    --focus <file>                    With export: only this file and its neighbors
+    --depth <n>                       With export --focus: hops to include (default: 1)
+    --direction <up|down|both>        With export --focus: follow dependents, dependencies or both
+    --dir <path>                      With export: only files under this directory
+    --cycles                          With export: only files in circular dependencies
+    --collapse                        With export: one node per directory, edges weighted by imports
+    --out <file>                      With export: write to a file instead of stdout
+    --cochange                        With impact: also list files that historically change together
+    --commits <n>                     With cochange: commits of history to read (default: 1000)
+    --min-support <n>                 With cochange: commits a pair must share (default: 3)
+    --min-confidence <0-1>            With cochange: share of a file's commits that include the other (default: 0.5)
     --help                            Show this help
 
   ${'\x1b[90m'}MCP install (run once per project):${'\x1b[0m'}
@@ -293,28 +885,57 @@ function printHelp(): void {
 
   ${'\x1b[90m'}MCP tools:${'\x1b[0m'}
     get_impact      What breaks if I edit this file?
+    get_symbol_impact
+                    What breaks if I change one export?
     get_context     Architecture context for a file
+    suggest_cycle_breaks
+                    Which imports to cut to break circular dependencies
+    get_broken_imports
+                    Imports of missing files or missing exports
+    get_package_impact
+                    Who uses an npm package, and what an upgrade touches
+    get_affected_tests
+                    Which test files to run after changing some files
     find_related    Find files matching a path/name pattern
 
   ${'\x1b[90m'}HTTP API (available in watch mode):${'\x1b[0m'}
     GET /health                       Server status + file/edge counts
     GET /graph                        Full dependency graph (JSON)
     GET /summary                      Architecture summary
-    GET /impact?file=src/foo.ts       Impact analysis for a file
+    GET /violations                   Architecture rule violations
+    GET /broken                       Imports of missing files, aliases or exports
+    GET /dead-exports                 Exports nothing imports
+    GET /packages                     External packages, importers and npm dependency issues
+    GET /impact?file=src/foo.ts       Impact analysis for a file (&cochange=1 adds git co-changes)
+    GET /cochange                     File pairs that change together, and which share no imports
+    GET /impact/symbol?file=src/foo.ts&symbol=bar
+                                      Impact analysis for one export
+    GET /impact/package?name=lodash   Impact of upgrading an npm package
     GET /dependents?file=src/foo.ts   Files that import this file
     GET /dependencies?file=src/foo.ts Files this file imports
+    GET /risk                         Composite risk score per file
     GET /node?file=src/foo.ts         Full node details
+    GET /export?format=dot            Graph as DOT, Mermaid, GraphML, CSV or JSON (same filters as export)
 
   ${'\x1b[90m'}Examples:${'\x1b[0m'}
     npx whobreaks .
     npx whobreaks watch . --port 3001
     npx whobreaks mcp
+    npx whobreaks impact src/utils/helpers.ts formatDate
+    npx whobreaks impact lodash
+    npx whobreaks diff origin/main
+    npx whobreaks compare origin/main HEAD
+    npx whobreaks check . --base origin/main
+    npx whobreaks export . --format mermaid --focus src/api.ts --depth 2
+    npx whobreaks cycles . --suggest
+    npx vitest run $(npx whobreaks affected-tests --base origin/main --format args)
+    npx whobreaks . --precise
 
 `);
 }
 
 async function main(): Promise<void> {
-  const { command, projectRoot, flags } = parseArgs(process.argv);
+  const { command, projectRoot, args, flags } = parseArgs(process.argv);
 
   if (flags['help'] || flags['h']) {
     printHelp();
@@ -332,7 +953,43 @@ async function main(): Promise<void> {
       break;
 
     case 'mcp':
-      await runMcp(projectRoot);
+      await runMcp(projectRoot, flags);
+      break;
+
+    case 'impact':
+      await runImpact(projectRoot, args, flags);
+      break;
+
+    case 'diff':
+      await runDiff(projectRoot, args, flags);
+      break;
+
+    case 'affected-tests':
+      await runAffectedTests(projectRoot, args, flags);
+      break;
+
+    case 'compare':
+      await runCompare(projectRoot, args, flags);
+      break;
+
+    case 'check':
+      await runCheck(projectRoot, flags);
+      break;
+
+    case 'export':
+      await runExport(projectRoot, flags);
+      break;
+
+    case 'cycles':
+      await runCycles(projectRoot, flags);
+      break;
+
+    case 'analyzers':
+      await runAnalyzers(projectRoot, flags);
+      break;
+
+    case 'cochange':
+      await runCoChange(projectRoot, flags);
       break;
 
     default:
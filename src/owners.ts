@@ -0,0 +1,82 @@
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp } from './glob.js';
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+export interface CodeOwners {
+  file: string | null;
+  rules: CodeOwnersRule[];
+}
+
+const LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+const GLOB_CHARS = /[*?[]/;
+
+function patternToRegExp(pattern: string): RegExp {
+  let p = pattern;
+  const isDir = p.endsWith('/');
+  if (isDir) p = p.replace(/\/+$/, '');
+  const anchored = p.startsWith('/') || p.includes('/');
+  p = p.replace(/^\/+/, '');
+
+  const lastSegment = p.slice(p.lastIndexOf('/') + 1);
+  let glob = (anchored ? '' : '**/') + p;
+  if (isDir) glob += '/**';
+  else if (!GLOB_CHARS.test(lastSegment) || lastSegment === '**') glob += '{,/**}';
+  return globToRegExp(glob);
+}
+
+function splitLine(line: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '\\' && i + 1 < line.length) {
+      current += line[++i];
+    } else if (c === '#') {
+      break;
+    } else if (/\s/.test(c)) {
+      if (current) parts.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('[') || trimmed.startsWith('^[')) continue;
+
+    const [pattern, ...owners] = splitLine(trimmed);
+    if (!pattern) continue;
+    rules.push({ pattern, owners, regex: patternToRegExp(pattern) });
+  }
+  return rules;
+}
+
+export function loadCodeOwners(projectRoot: string): CodeOwners {
+  for (const location of LOCATIONS) {
+    const file = path.join(projectRoot, location);
+    try {
+      return { file, rules: parseCodeOwners(readFileSync(file, 'utf-8')) };
+    } catch {}
+  }
+  return { file: null, rules: [] };
+}
+
+export function findOwners(codeOwners: CodeOwners, relativePath: string): string[] {
+  const posix = relativePath.split(path.sep).join('/');
+  for (let i = codeOwners.rules.length - 1; i >= 0; i--) {
+    if (codeOwners.rules[i].regex.test(posix)) return codeOwners.rules[i].owners;
+  }
+  return [];
+}
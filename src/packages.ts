@@ -0,0 +1,307 @@
+import { readFileSync, readdirSync, existsSync } from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp } from './glob.js';
+
+export interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  source?: string;
+  bin?: string | Record<string, string>;
+  scripts?: Record<string, string>;
+  exports?: unknown;
+  imports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: PackageManifest;
+}
+
+export interface Workspace {
+  packages: WorkspacePackage[];
+  byName: Map<string, WorkspacePackage>;
+}
+
+const CONDITIONS = new Set([
+  'source',
+  'types',
+  'typescript',
+  'development',
+  'import',
+  'module',
+  'require',
+  'node',
+  'default',
+]);
+
+const BUILD_DIRS = new Set(['dist', 'build', 'lib', 'out', 'esm', 'cjs']);
+
+const SKIP_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', 'out']);
+
+const GLOB_CHARS = /[*?{]/;
+
+function readManifest(dir: string): PackageManifest | null {
+  try {
+    return JSON.parse(readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function readPnpmWorkspace(projectRoot: string): string[] {
+  let raw: string;
+  try {
+    raw = readFileSync(path.join(projectRoot, 'pnpm-workspace.yaml'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of raw.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+    if (/^\S/.test(line)) break;
+    const m = /^\s*-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/.exec(line);
+    if (m) patterns.push(m[2]);
+  }
+  return patterns;
+}
+
+function workspacePatterns(projectRoot: string, rootManifest: PackageManifest | null): string[] {
+  const ws = rootManifest?.workspaces;
+  const fromManifest = Array.isArray(ws) ? ws : Array.isArray(ws?.packages) ? ws.packages : [];
+  return [...fromManifest, ...readPnpmWorkspace(projectRoot)]
+    .map((p) => p.replace(/^\.\//, '').replace(/\/+$/, ''));
+}
+
+function segmentMatches(segment: string, pattern: string): boolean {
+  return GLOB_CHARS.test(pattern) ? globToRegExp(pattern).test(segment) : segment === pattern;
+}
+
+function matchesPattern(relDir: string, pattern: string): boolean {
+  return GLOB_CHARS.test(pattern) ? globToRegExp(pattern).test(relDir) : relDir === pattern;
+}
+
+function couldContain(relDir: string, pattern: string): boolean {
+  const dirSegments = relDir.split('/');
+  const patternSegments = pattern.split('/');
+  for (let i = 0; i < dirSegments.length; i++) {
+    const p = patternSegments[i];
+    if (p === undefined) return false;
+    if (p.includes('**')) return true;
+    if (!segmentMatches(dirSegments[i], p)) return false;
+  }
+  return true;
+}
+
+function expandPatterns(projectRoot: string, patterns: string[]): string[] {
+  const includes = patterns.filter((p) => !p.startsWith('!'));
+  const excludes = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+  const dirs: string[] = [];
+
+  const walk = (relDir: string) => {
+    let entries: import('node:fs').Dirent[];
+    try {
+      entries = readdirSync(path.join(projectRoot, relDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIP_DIRS.has(entry.name)) continue;
+      const child = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (!includes.some((p) => couldContain(child, p))) continue;
+
+      if (
+        includes.some((p) => matchesPattern(child, p)) &&
+        !excludes.some((p) => matchesPattern(child, p)) &&
+        existsSync(path.join(projectRoot, child, 'package.json'))
+      ) {
+        dirs.push(path.join(projectRoot, child));
+      }
+      walk(child);
+    }
+  };
+
+  if (includes.length > 0) walk('');
+  return dirs;
+}
+
+export function loadWorkspace(projectRoot: string): Workspace {
+  const rootManifest = readManifest(projectRoot);
+  const packages: WorkspacePackage[] = [];
+
+  if (rootManifest) {
+    packages.push({ name: rootManifest.name ?? '', dir: projectRoot, manifest: rootManifest });
+  }
+
+  for (const dir of expandPatterns(projectRoot, workspacePatterns(projectRoot, rootManifest))) {
+    const manifest = readManifest(dir);
+    if (manifest?.name) packages.push({ name: manifest.name, dir, manifest });
+  }
+
+  packages.sort((a, b) => b.dir.length - a.dir.length);
+  const byName = new Map<string, WorkspacePackage>();
+  for (const pkg of packages) {
+    if (pkg.name && !byName.has(pkg.name)) byName.set(pkg.name, pkg);
+  }
+
+  return { packages, byName };
+}
+
+export function findOwningPackage(sourceDir: string, workspace: Workspace): WorkspacePackage | undefined {
+  return workspace.packages.find(
+    (pkg) => sourceDir === pkg.dir || sourceDir.startsWith(pkg.dir + path.sep)
+  );
+}
+
+function splitSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const rest = parts.slice(nameLength).join('/');
+  return { name: parts.slice(0, nameLength).join('/'), subpath: rest ? './' + rest : '.' };
+}
+
+function conditionTargets(value: unknown, wildcard: string | undefined): string[] {
+  if (typeof value === 'string') {
+    return [wildcard === undefined ? value : value.split('*').join(wildcard)];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((v) => conditionTargets(v, wildcard));
+  }
+  if (value && typeof value === 'object') {
+    const targets: string[] = [];
+    for (const [condition, nested] of Object.entries(value)) {
+      if (CONDITIONS.has(condition)) targets.push(...conditionTargets(nested, wildcard));
+    }
+    return targets;
+  }
+  return [];
+}
+
+function matchSubpath(map: Record<string, unknown>, subpath: string): string[] {
+  if (subpath in map) return conditionTargets(map[subpath], undefined);
+
+  let bestKey: string | undefined;
+  let bestPrefix = -1;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= key.length - 1 &&
+      prefix.length > bestPrefix
+    ) {
+      bestKey = key;
+      bestPrefix = prefix.length;
+    }
+  }
+  if (bestKey === undefined) return [];
+
+  const suffixLength = bestKey.length - bestPrefix - 1;
+  const wildcard = subpath.slice(bestPrefix, subpath.length - suffixLength);
+  return conditionTargets(map[bestKey], wildcard);
+}
+
+function exportsMap(exports: unknown): Record<string, unknown> {
+  if (exports && typeof exports === 'object' && !Array.isArray(exports)) {
+    const keys = Object.keys(exports);
+    if (keys.length > 0 && keys.every((k) => k.startsWith('.'))) return exports as Record<string, unknown>;
+  }
+  return { '.': exports };
+}
+
+function sourceCandidates(pkgDir: string, target: string): string[] {
+  const absolute = path.join(pkgDir, target);
+  const withoutDts = absolute.replace(/\.d\.[mc]?ts$/, '');
+  const candidates = [absolute];
+  if (withoutDts !== absolute) candidates.push(withoutDts);
+
+  const segments = path.relative(pkgDir, withoutDts).split(path.sep);
+  if (segments.length > 1 && BUILD_DIRS.has(segments[0])) {
+    candidates.push(path.join(pkgDir, 'src', ...segments.slice(1)));
+  }
+  return candidates;
+}
+
+function packageCandidates(pkg: WorkspacePackage, subpath: string): string[] {
+  const { manifest } = pkg;
+
+  if (manifest.exports !== undefined && manifest.exports !== null) {
+    return matchSubpath(exportsMap(manifest.exports), subpath)
+      .flatMap((t) => sourceCandidates(pkg.dir, t));
+  }
+
+  if (subpath !== '.') return [path.join(pkg.dir, subpath)];
+
+  const fields = [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main];
+  const candidates = fields
+    .filter((f): f is string => typeof f === 'string')
+    .flatMap((f) => sourceCandidates(pkg.dir, f));
+  candidates.push(path.join(pkg.dir, 'src', 'index'), path.join(pkg.dir, 'index'));
+  return candidates;
+}
+
+export function packageEntryCandidates(pkg: WorkspacePackage): string[] {
+  const { manifest } = pkg;
+  const targets: string[] = [];
+
+  if (manifest.exports !== undefined && manifest.exports !== null) {
+    for (const value of Object.values(exportsMap(manifest.exports))) {
+      targets.push(...conditionTargets(value, undefined));
+    }
+  }
+  for (const field of [manifest.source, manifest.module, manifest.main]) {
+    if (typeof field === 'string') targets.push(field);
+  }
+  if (typeof manifest.bin === 'string') targets.push(manifest.bin);
+  else if (manifest.bin) targets.push(...Object.values(manifest.bin).filter((b) => typeof b === 'string'));
+
+  return targets
+    .filter((t) => !t.startsWith('..'))
+    .flatMap((t) => sourceCandidates(pkg.dir, t));
+}
+
+export function workspacePackageName(specifier: string, workspace: Workspace): string | undefined {
+  if (specifier.startsWith('#') || specifier.startsWith('.') || specifier.startsWith('/')) return undefined;
+  const { name } = splitSpecifier(specifier);
+  return workspace.byName.has(name) ? name : undefined;
+}
+
+export function resolveWorkspaceSpecifier(
+  specifier: string,
+  sourceDir: string,
+  workspace: Workspace
+): string[] {
+  if (specifier.startsWith('#')) {
+    const owner = findOwningPackage(sourceDir, workspace);
+    const imports = owner?.manifest.imports;
+    if (!owner || !imports || typeof imports !== 'object') return [];
+
+    return matchSubpath(imports as Record<string, unknown>, specifier).flatMap((target) =>
+      target.startsWith('./')
+        ? sourceCandidates(owner.dir, target)
+        : resolveWorkspaceSpecifier(target, sourceDir, workspace)
+    );
+  }
+
+  const { name, subpath } = splitSpecifier(specifier);
+  const pkg = workspace.byName.get(name);
+  return pkg ? packageCandidates(pkg, subpath) : [];
+}
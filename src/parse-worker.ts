@@ -0,0 +1,9 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { readAndParseFile } from './analyzer.js';
+
+const { projectRoot } = workerData as { projectRoot: string };
+
+parentPort!.on('message', ({ id, files }: { id: number; files: string[] }) => {
+  const results = files.map((f) => readAndParseFile(f, projectRoot));
+  parentPort!.postMessage({ id, results });
+});
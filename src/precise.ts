@@ -0,0 +1,638 @@
+import { readFileSync, statSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import type * as TS from 'typescript';
+import type {
+  FileNode,
+  ImportEdge,
+  ExportInfo,
+  ExportKind,
+  AnalyzerComparison,
+  AnalyzerDisagreement,
+} from './types.js';
+import {
+  hashContent,
+  countLines,
+  loadResolverContext,
+  resolveImport,
+  findTsConfigProject,
+  type Resolution,
+} from './analyzer.js';
+import { workspacePackageName } from './packages.js';
+import { findOwners } from './owners.js';
+
+type TypeScript = typeof TS;
+
+export interface PreciseAnalyzer {
+  analyze(filePath: string, knownFiles: Set<string>): FileNode | null;
+}
+
+async function loadTypeScript(projectRoot: string): Promise<TypeScript> {
+  try {
+    return createRequire(path.join(projectRoot, 'package.json'))('typescript') as TypeScript;
+  } catch {}
+
+  try {
+    const mod = await import('typescript');
+    return (mod.default ?? mod) as TypeScript;
+  } catch {
+    throw new Error('--precise needs the "typescript" package. Install it in your project: npm i -D typescript');
+  }
+}
+
+function loadCompilerOptions(ts: TypeScript, configPath: string | undefined): TS.CompilerOptions {
+  let options: TS.CompilerOptions = {};
+
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!error) {
+      options = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath).options;
+    }
+  }
+
+  if (options.moduleResolution === undefined) {
+    options.moduleResolution = ts.ModuleResolutionKind.Bundler ?? ts.ModuleResolutionKind.Node10;
+  }
+  options.allowJs = true;
+  return options;
+}
+
+function scriptKind(ts: TypeScript, filePath: string): TS.ScriptKind {
+  switch (path.extname(filePath)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js': case '.mjs': case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+function declarationKind(ts: TypeScript, node: TS.Node): ExportKind {
+  if (ts.isFunctionDeclaration(node)) return 'function';
+  if (ts.isClassDeclaration(node)) return 'class';
+  if (ts.isInterfaceDeclaration(node)) return 'interface';
+  if (ts.isTypeAliasDeclaration(node)) return 'type';
+  if (ts.isEnumDeclaration(node)) return 'enum';
+  if (ts.isModuleDeclaration(node)) return 'namespace';
+  if (ts.isVariableStatement(node)) return 'variable';
+  return 'unknown';
+}
+
+function hasModifier(ts: TypeScript, node: TS.Node, kind: TS.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some((m) => m.kind === kind) ?? false);
+}
+
+function bindingNames(ts: TypeScript, name: TS.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  const names: string[] = [];
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) names.push(...bindingNames(ts, element.name));
+  }
+  return names;
+}
+
+function moduleName(ts: TypeScript, node: TS.Expression | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+function requireSpecifier(ts: TypeScript, node: TS.Node): string | undefined {
+  if (!ts.isCallExpression(node) || node.arguments.length !== 1) return undefined;
+  if (!ts.isIdentifier(node.expression) || node.expression.text !== 'require') return undefined;
+  return moduleName(ts, node.arguments[0]);
+}
+
+function commonJsExportName(ts: TypeScript, target: TS.Expression): string | undefined {
+  const isModuleExports = (e: TS.Expression) =>
+    ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) &&
+    e.expression.text === 'module' && e.name.text === 'exports';
+
+  if (isModuleExports(target)) return 'default';
+  if (!ts.isPropertyAccessExpression(target)) return undefined;
+  const owner = target.expression;
+  if ((ts.isIdentifier(owner) && owner.text === 'exports') || isModuleExports(owner)) {
+    return target.name.text;
+  }
+  return undefined;
+}
+
+export async function createPreciseAnalyzer(projectRoot: string): Promise<PreciseAnalyzer> {
+  const ts = await loadTypeScript(projectRoot);
+  const resolver = loadResolverContext(projectRoot);
+  const rootConfig = ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json');
+  const hosts = new Map<string, { options: TS.CompilerOptions; cache: TS.ModuleResolutionCache }>();
+
+  function hostFor(containingFile: string) {
+    const configPath = findTsConfigProject(resolver, containingFile)?.configPath ?? rootConfig;
+    const key = configPath ?? '';
+    let host = hosts.get(key);
+    if (!host) {
+      const options = loadCompilerOptions(ts, configPath);
+      host = { options, cache: ts.createModuleResolutionCache(projectRoot, (f) => f, options) };
+      hosts.set(key, host);
+    }
+    return host;
+  }
+
+  function resolve(specifier: string, containingFile: string, knownFiles: Set<string>): Resolution {
+    const { options, cache } = hostFor(containingFile);
+    const resolved = ts.resolveModuleName(specifier, containingFile, options, ts.sys, cache).resolvedModule;
+    if (resolved) {
+      const resolvedPath = path.resolve(resolved.resolvedFileName);
+      if (knownFiles.has(resolvedPath)) {
+        const workspacePackage = workspacePackageName(specifier, resolver.workspace);
+        return workspacePackage ? { target: resolvedPath, workspacePackage } : { target: resolvedPath };
+      }
+    }
+    return resolveImport(specifier, containingFile, resolver, knownFiles);
+  }
+
+  function analyze(filePath: string, knownFiles: Set<string>): FileNode | null {
+    let content: string;
+    let sizeBytes: number;
+    try {
+      content = readFileSync(filePath, 'utf-8');
+      sizeBytes = statSync(filePath).size;
+    } catch {
+      return null;
+    }
+
+    const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(ts, filePath));
+    const lineOf = (node: TS.Node) => sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+
+    const imports: ImportEdge[] = [];
+    const exports: ExportInfo[] = [];
+    const seenExports = new Set<string>();
+    const localKinds = new Map<string, ExportKind>();
+    const importedBindings = new Map<string, { specifier: string; name: string }>();
+    const usedIdentifiers = new Set<string>();
+    const namespaceMembers = new Map<string, Set<string>>();
+
+    const addExport = (info: ExportInfo) => {
+      if (seenExports.has(info.name)) return;
+      seenExports.add(info.name);
+      exports.push(info);
+    };
+
+    for (const statement of sf.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const decl of statement.declarationList.declarations) {
+          for (const name of bindingNames(ts, decl.name)) localKinds.set(name, 'variable');
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) ||
+          ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) &&
+        statement.name && ts.isIdentifier(statement.name)
+      ) {
+        localKinds.set(statement.name.text, declarationKind(ts, statement));
+      }
+    }
+
+    const kindOf = (expr: TS.Expression): ExportKind => {
+      if (ts.isIdentifier(expr)) return localKinds.get(expr.text) ?? 'unknown';
+      if (ts.isClassExpression(expr)) return 'class';
+      if (ts.isFunctionExpression(expr) || ts.isArrowFunction(expr)) return 'function';
+      return 'variable';
+    };
+
+    for (const statement of sf.statements) {
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+      ) {
+        const { left, right } = statement.expression;
+        const name = commonJsExportName(ts, left);
+        if (!name || name === '__esModule') continue;
+
+        const line = lineOf(statement);
+        addExport({ name, kind: kindOf(right), line, isReExport: false, isCommonJs: true });
+        if (name !== 'default' || !ts.isObjectLiteralExpression(right)) continue;
+
+        for (const prop of right.properties) {
+          if (!prop.name || !(ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name))) continue;
+          const kind = ts.isMethodDeclaration(prop) ? 'function'
+            : ts.isPropertyAssignment(prop) ? kindOf(prop.initializer)
+            : localKinds.get(prop.name.text) ?? 'unknown';
+          addExport({ name: prop.name.text, kind, line, isReExport: false, isCommonJs: true });
+        }
+        continue;
+      }
+
+      if (ts.isImportDeclaration(statement)) {
+        const specifier = moduleName(ts, statement.moduleSpecifier);
+        if (!specifier) continue;
+        const clause = statement.importClause;
+        const edge: ImportEdge = {
+          source: filePath,
+          ...resolve(specifier, filePath, knownFiles),
+          rawSpecifier: specifier,
+          symbols: [],
+          isTypeOnly: clause?.isTypeOnly ?? false,
+          isDynamic: false,
+          line: lineOf(statement),
+        };
+
+        if (clause?.name) {
+          edge.symbols.push(clause.name.text);
+          edge.defaultImport = clause.name.text;
+          importedBindings.set(clause.name.text, { specifier, name: 'default' });
+        }
+        const bindings = clause?.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          edge.symbols.push(bindings.name.text);
+          edge.namespaceImport = bindings.name.text;
+          namespaceMembers.set(bindings.name.text, new Set());
+        } else if (bindings) {
+          for (const element of bindings.elements) {
+            const exported = (element.propertyName ?? element.name).text;
+            edge.symbols.push(exported);
+            importedBindings.set(element.name.text, { specifier, name: exported });
+          }
+        }
+        imports.push(edge);
+        continue;
+      }
+
+      if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference)) {
+        const specifier = moduleName(ts, statement.moduleReference.expression);
+        if (!specifier) continue;
+        const local = statement.name.text;
+        namespaceMembers.set(local, new Set());
+        imports.push({
+          source: filePath,
+          ...resolve(specifier, filePath, knownFiles),
+          rawSpecifier: specifier,
+          symbols: [local],
+          isTypeOnly: statement.isTypeOnly,
+          isDynamic: false,
+          line: lineOf(statement),
+          namespaceImport: local,
+        });
+        continue;
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        const specifier = moduleName(ts, statement.moduleSpecifier);
+        const line = lineOf(statement);
+        const clause = statement.exportClause;
+
+        if (specifier) {
+          const { target } = resolve(specifier, filePath, knownFiles);
+          if (!clause || ts.isNamespaceExport(clause)) {
+            addExport({
+              name: clause ? clause.name.text : '*',
+              kind: clause ? 'namespace' : 'unknown',
+              line,
+              isReExport: true,
+              reExportSource: specifier,
+              reExportTarget: target,
+              reExportName: '*',
+            });
+          } else {
+            for (const element of clause.elements) {
+              addExport({
+                name: element.name.text,
+                kind: 'unknown',
+                line,
+                isReExport: true,
+                reExportSource: specifier,
+                reExportTarget: target,
+                reExportName: (element.propertyName ?? element.name).text,
+              });
+            }
+          }
+          continue;
+        }
+
+        if (clause && ts.isNamedExports(clause)) {
+          for (const element of clause.elements) {
+            const local = (element.propertyName ?? element.name).text;
+            usedIdentifiers.add(local);
+            const imported = importedBindings.get(local);
+            addExport(imported
+              ? {
+                name: element.name.text,
+                kind: 'unknown',
+                line,
+                isReExport: true,
+                reExportSource: imported.specifier,
+                reExportTarget: resolve(imported.specifier, filePath, knownFiles).target,
+                reExportName: imported.name,
+              }
+              : { name: element.name.text, kind: localKinds.get(local) ?? 'unknown', line, isReExport: false });
+          }
+        }
+        continue;
+      }
+
+      if (ts.isExportAssignment(statement)) {
+        addExport({
+          name: 'default',
+          kind: kindOf(statement.expression),
+          line: lineOf(statement),
+          isReExport: false,
+          ...(statement.isExportEquals ? { isCommonJs: true } : {}),
+        });
+        continue;
+      }
+
+      if (!hasModifier(ts, statement, ts.SyntaxKind.ExportKeyword)) continue;
+
+      const kind = declarationKind(ts, statement);
+      const line = lineOf(statement);
+      if (hasModifier(ts, statement, ts.SyntaxKind.DefaultKeyword)) {
+        addExport({ name: 'default', kind, line, isReExport: false });
+      } else if (ts.isVariableStatement(statement)) {
+        for (const decl of statement.declarationList.declarations) {
+          for (const name of bindingNames(ts, decl.name)) {
+            addExport({ name, kind, line, isReExport: false });
+          }
+        }
+      } else {
+        const name = (statement as TS.DeclarationStatement).name;
+        if (name && ts.isIdentifier(name)) {
+          addExport({ name: name.text, kind, line, isReExport: false });
+        }
+      }
+    }
+
+    const addRequire = (specifier: string, node: TS.Node, symbols: string[], namespaceImport?: string) => {
+      imports.push({
+        source: filePath,
+        ...resolve(specifier, filePath, knownFiles),
+        rawSpecifier: specifier,
+        symbols,
+        isTypeOnly: false,
+        isDynamic: false,
+        line: lineOf(node),
+        ...(namespaceImport ? { namespaceImport } : {}),
+      });
+      if (namespaceImport) namespaceMembers.set(namespaceImport, new Set());
+    };
+
+    const visit = (node: TS.Node): void => {
+      if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+
+      if (ts.isVariableDeclaration(node) && node.initializer) {
+        const init = node.initializer;
+        const member = ts.isPropertyAccessExpression(init) ? init.name.text : undefined;
+        const specifier = requireSpecifier(ts, member ? (init as TS.PropertyAccessExpression).expression : init);
+
+        if (specifier && ts.isObjectBindingPattern(node.name)) {
+          const symbols: string[] = [];
+          let rest: string | undefined;
+          for (const element of node.name.elements) {
+            if (!ts.isIdentifier(element.name)) continue;
+            if (element.dotDotDotToken) {
+              rest = element.name.text;
+              symbols.push(rest);
+              continue;
+            }
+            const exported = element.propertyName && ts.isIdentifier(element.propertyName)
+              ? element.propertyName.text
+              : element.name.text;
+            symbols.push(exported);
+            importedBindings.set(element.name.text, { specifier, name: exported });
+          }
+          addRequire(specifier, node, symbols, rest);
+          return;
+        }
+
+        if (specifier && ts.isIdentifier(node.name)) {
+          if (member) {
+            importedBindings.set(node.name.text, { specifier, name: member });
+            addRequire(specifier, node, [member]);
+          } else {
+            addRequire(specifier, node, [node.name.text], node.name.text);
+          }
+          return;
+        }
+      }
+
+      if (ts.isPropertyAccessExpression(node)) {
+        const specifier = requireSpecifier(ts, node.expression);
+        if (specifier) {
+          addRequire(specifier, node, [node.name.text]);
+          return;
+        }
+      }
+
+      const required = requireSpecifier(ts, node);
+      if (required) {
+        addRequire(required, node, []);
+        return;
+      }
+
+      if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        const specifier = moduleName(ts, node.arguments[0]);
+        if (specifier) {
+          imports.push({
+            source: filePath,
+            ...resolve(specifier, filePath, knownFiles),
+            rawSpecifier: specifier,
+            symbols: [],
+            isTypeOnly: false,
+            isDynamic: true,
+            line: lineOf(node),
+          });
+        }
+      }
+
+      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) &&
+        namespaceMembers.has(node.expression.text)) {
+        namespaceMembers.get(node.expression.text)!.add(node.name.text);
+        return;
+      } else if (ts.isQualifiedName(node) && ts.isIdentifier(node.left) && namespaceMembers.has(node.left.text)) {
+        namespaceMembers.get(node.left.text)!.add(node.right.text);
+        return;
+      } else if (ts.isIdentifier(node)) {
+        usedIdentifiers.add(node.text);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sf);
+
+    for (const edge of imports) {
+      if (edge.isDynamic) continue;
+      if (edge.namespaceImport && usedIdentifiers.has(edge.namespaceImport)) continue;
+      const used: string[] = [];
+      for (const [local, binding] of importedBindings) {
+        if (binding.specifier === edge.rawSpecifier && usedIdentifiers.has(local)) used.push(binding.name);
+      }
+      if (edge.namespaceImport) used.push(...namespaceMembers.get(edge.namespaceImport)!);
+      edge.usedSymbols = used;
+    }
+
+    return {
+      path: filePath,
+      relativePath: path.relative(projectRoot, filePath),
+      owners: findOwners(resolver.codeOwners, path.relative(projectRoot, filePath)),
+      imports,
+      exports,
+      lastModified: Date.now(),
+      hash: hashContent(content),
+      sizeBytes,
+      linesOfCode: countLines(content),
+    };
+  }
+
+  return { analyze };
+}
+
+export async function analyzeFilesPrecise(
+  filePaths: string[],
+  projectRoot: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<FileNode[]> {
+  const analyzer = await createPreciseAnalyzer(projectRoot);
+  const knownFiles = new Set(filePaths);
+  const results: FileNode[] = [];
+
+  for (let i = 0; i < filePaths.length; i++) {
+    const node = analyzer.analyze(filePaths[i], knownFiles);
+    if (node) results.push(node);
+    if ((i + 1) % 200 === 0 || i === filePaths.length - 1) {
+      onProgress?.(i + 1, filePaths.length);
+      await new Promise((r) => setImmediate(r));
+    }
+  }
+
+  return results;
+}
+
+function importKey(imp: ImportEdge): string {
+  return (imp.isDynamic ? 'dynamic:' : 'static:') + imp.rawSpecifier;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const list = groups.get(k);
+    if (list) list.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function sameSymbols(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((s) => set.has(s));
+}
+
+function compareFile(regex: FileNode, precise: FileNode): AnalyzerDisagreement[] {
+  const found: AnalyzerDisagreement[] = [];
+  const file = precise.path;
+  const describe = (imp: ImportEdge) => `'${imp.rawSpecifier}'${imp.isDynamic ? ' (dynamic)' : ''}`;
+
+  const regexImports = groupBy(regex.imports, importKey);
+  for (const [key, preciseList] of groupBy(precise.imports, importKey)) {
+    const regexList = regexImports.get(key) ?? [];
+    regexImports.delete(key);
+
+    for (let i = 0; i < preciseList.length; i++) {
+      const p = preciseList[i];
+      const r = regexList[i];
+      if (!r) {
+        found.push({ file, kind: 'missing-import', line: p.line, subject: describe(p), regex: null, precise: p.symbols.join(', ') });
+        continue;
+      }
+      if (r.target !== p.target) {
+        found.push({ file, kind: 'import-target', line: p.line, subject: describe(p), regex: r.target || null, precise: p.target || null });
+      }
+      if (!sameSymbols(r.symbols, p.symbols)) {
+        found.push({ file, kind: 'import-symbols', line: p.line, subject: describe(p), regex: r.symbols.join(', '), precise: p.symbols.join(', ') });
+      }
+      if (r.isTypeOnly !== p.isTypeOnly) {
+        found.push({ file, kind: 'type-only', line: p.line, subject: describe(p), regex: String(r.isTypeOnly), precise: String(p.isTypeOnly) });
+      }
+    }
+    for (const r of regexList.slice(preciseList.length)) {
+      found.push({ file, kind: 'extra-import', line: r.line, subject: describe(r), regex: r.symbols.join(', '), precise: null });
+    }
+  }
+  for (const list of regexImports.values()) {
+    for (const r of list) {
+      found.push({ file, kind: 'extra-import', line: r.line, subject: describe(r), regex: r.symbols.join(', '), precise: null });
+    }
+  }
+
+  const regexExports = new Map(regex.exports.map((e) => [e.name, e]));
+  for (const p of precise.exports) {
+    const r = regexExports.get(p.name);
+    regexExports.delete(p.name);
+    if (!r) {
+      found.push({ file, kind: 'missing-export', line: p.line, subject: p.name, regex: null, precise: p.kind });
+    } else if (r.kind !== p.kind && !p.isReExport) {
+      found.push({ file, kind: 'export-kind', line: p.line, subject: p.name, regex: r.kind, precise: p.kind });
+    }
+  }
+  for (const r of regexExports.values()) {
+    found.push({ file, kind: 'extra-export', line: r.line, subject: r.name, regex: r.kind, precise: null });
+  }
+
+  return found.sort((a, b) => a.line - b.line);
+}
+
+export function compareAnalyzers(regexNodes: FileNode[], preciseNodes: FileNode[]): AnalyzerComparison {
+  const regexByPath = new Map(regexNodes.map((n) => [n.path, n]));
+  const disagreements: AnalyzerDisagreement[] = [];
+  const byKind: AnalyzerComparison['byKind'] = {};
+  let agreeingFiles = 0;
+
+  for (const precise of preciseNodes) {
+    const regex = regexByPath.get(precise.path);
+    if (!regex) continue;
+
+    const found = compareFile(regex, precise);
+    if (found.length === 0) agreeingFiles++;
+    for (const d of found) {
+      disagreements.push(d);
+      byKind[d.kind] = (byKind[d.kind] ?? 0) + 1;
+    }
+  }
+
+  return {
+    totalFiles: preciseNodes.length,
+    agreeingFiles,
+    disagreements,
+    byKind,
+  };
+}
+
+export function buildAnalyzerDiffMarkdown(comparison: AnalyzerComparison, projectRoot: string): string {
+  const rel = (p: string) => path.relative(projectRoot, p);
+  const lines: string[] = [];
+
+  lines.push('# Analyzer Comparison');
+  lines.push('');
+  lines.push(`> Generated by [whobreaks](https://github.com/f1729/whobreaks) on ${new Date().toISOString()}`);
+  lines.push('');
+  lines.push('Where the fast regex analyzer and the TypeScript compiler (`--precise`) disagree.');
+  lines.push('');
+  lines.push(`| Metric | Value |`);
+  lines.push(`|--------|-------|`);
+  lines.push(`| Files compared | ${comparison.totalFiles} |`);
+  lines.push(`| Files in agreement | ${comparison.agreeingFiles} |`);
+  lines.push(`| Disagreements | ${comparison.disagreements.length} |`);
+  for (const [kind, count] of Object.entries(comparison.byKind)) {
+    lines.push(`| ${kind} | ${count} |`);
+  }
+  lines.push('');
+
+  if (comparison.disagreements.length === 0) return lines.join('\n');
+
+  lines.push('## Disagreements');
+  lines.push('');
+  lines.push('| Location | Kind | Subject | Regex | Precise |');
+  lines.push('|----------|------|---------|-------|---------|');
+  const cell = (value: string | null) => (!value ? '—' : `\`${value.startsWith('/') ? rel(value) : value}\``);
+  for (const d of comparison.disagreements) {
+    lines.push(`| \`${rel(d.file)}:${d.line}\` | ${d.kind} | ${d.subject} | ${cell(d.regex)} | ${cell(d.precise)} |`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -1,6 +1,24 @@
 import * as path from 'node:path';
-import type { GraphSummary } from './types.js';
+import type {
+  GraphSummary,
+  ImpactAnalysis,
+  SymbolImpact,
+  DiffImpact,
+  RuleViolation,
+  CircularDependency,
+  CycleBreakPlan,
+  AnalyzerComparison,
+  BrokenImport,
+  DependencyIssue,
+  PackageImpact,
+  DeadExport,
+  CoChangeReport,
+  GraphComparison,
+  FileMetricChange,
+  CheckResult,
+} from './types.js';
 import type { ScanResult } from './scanner.js';
+import { resolveOutputDir } from './config.js';
 
 const RESET = '\x1b[0m';
 const BOLD = '\x1b[1m';
@@ -39,13 +57,21 @@ function printHeader(): void {
   process.stdout.write('\n');
 }
 
-function printScanProgress(fileCount: number, elapsedMs: number): void {
-  const elapsed = (elapsedMs / 1000).toFixed(1);
-  process.stdout.write(`  ${BLUE}📁${RESET} Found ${bold(fmt(fileCount))} files\n`);
-  process.stdout.write(`  ${BLUE}⏱️ ${RESET}  Analyzed in ${bold(elapsed + 's')}\n`);
+function printScanProgress(result: ScanResult): void {
+  const elapsed = (result.elapsedMs / 1000).toFixed(1);
+  process.stdout.write(`  ${BLUE}📁${RESET} Found ${bold(fmt(result.fileCount))} files\n`);
+  process.stdout.write(`  ${BLUE}⏱️ ${RESET}  Analyzed in ${bold(elapsed + 's')} ${dim(analyzerLabel(result))}\n`);
   process.stdout.write('\n');
 }
 
+function analyzerLabel({ analyzer, cache }: ScanResult): string {
+  if (analyzer === 'precise') return '(precise: TypeScript compiler)';
+  if (!cache) return '(cache disabled)';
+  if (cache.hits === 0) return '(cold scan)';
+  const cold = cache.coldMs !== null ? `, cold scan took ${(cache.coldMs / 1000).toFixed(1)}s` : '';
+  return `(warm: ${fmt(cache.hits)} cached, ${fmt(cache.misses)} re-analyzed${cold})`;
+}
+
 function printSummaryBox(summary: GraphSummary, projectRoot: string): void {
   const avgDepth = summary.avgDepth.toFixed(1);
   const maxDepthLabel = summary.maxDepthPath.length > 0
@@ -56,6 +82,7 @@ function printSummaryBox(summary: GraphSummary, projectRoot: string): void {
   process.stdout.write(`  ${GRAY}│${RESET}                                        ${GRAY}│${RESET}\n`);
   process.stdout.write(`  ${GRAY}│${RESET}  Files:     ${bold(fmt(summary.totalFiles).padStart(12))}              ${GRAY}│${RESET}\n`);
   process.stdout.write(`  ${GRAY}│${RESET}  Edges:     ${bold(fmt(summary.totalEdges).padStart(12))}              ${GRAY}│${RESET}\n`);
+  process.stdout.write(`  ${GRAY}│${RESET}  Packages:  ${bold(fmt(summary.externalPackages).padStart(12))}              ${GRAY}│${RESET}\n`);
   process.stdout.write(`  ${GRAY}│${RESET}  Avg depth: ${bold(avgDepth.padStart(12))}              ${GRAY}│${RESET}\n`);
   process.stdout.write(`  ${GRAY}│${RESET}  Max depth: ${bold(String(summary.maxDepth).padStart(12))} ${maxDepthLabel.padEnd(14)} ${GRAY}│${RESET}\n`);
   process.stdout.write(`  ${GRAY}│${RESET}                                        ${GRAY}│${RESET}\n`);
@@ -69,10 +96,10 @@ function printCircularDeps(summary: GraphSummary, projectRoot: string): void {
   process.stdout.write(`  ${red('🔄 Circular Dependencies')} ${dim(`(${summary.circularDependencies.length})`)}\n`);
 
   const shown = summary.circularDependencies.slice(0, 5);
-  for (const { cycle } of shown) {
+  for (const { cycle, size } of shown) {
     const parts = cycle.map((f) => cyan(rel(f, projectRoot)));
-    const arrow = cycle.length === 2 ? ' ↔ ' : ' → ';
-    process.stdout.write(`     ${parts.join(arrow)}\n`);
+    const label = cycle.length === 3 ? parts.slice(0, 2).join(' ↔ ') : parts.join(' → ');
+    process.stdout.write(`     ${yellow(`[${size} files]`.padEnd(11))} ${label}\n`);
   }
 
   if (summary.circularDependencies.length > 5) {
@@ -81,18 +108,35 @@ function printCircularDeps(summary: GraphSummary, projectRoot: string): void {
   process.stdout.write('\n');
 }
 
-function printOrphans(summary: GraphSummary, projectRoot: string): void {
-  if (summary.orphanFiles.length === 0) return;
+function printEntryPoints(summary: GraphSummary, projectRoot: string): void {
+  if (summary.entryPoints.length === 0) return;
+
+  process.stdout.write(`  ${blue('🚪 Entry Points')} ${dim(`(${summary.entryPoints.length})`)}\n`);
+  for (const { file, reason } of summary.entryPoints.slice(0, 8)) {
+    process.stdout.write(`     ${cyan(rel(file, projectRoot))} ${gray(reason)}\n`);
+  }
+
+  if (summary.entryPoints.length > 8) {
+    process.stdout.write(`     ${gray(`... +${summary.entryPoints.length - 8} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printUnreachable(summary: GraphSummary, projectRoot: string): void {
+  if (summary.unreachableFiles.length === 0) return;
 
-  process.stdout.write(`  ${yellow('🏝️  Orphan Files')} ${dim('— imported by nothing')} ${dim(`(${summary.orphanFiles.length})`)}\n`);
+  const label = summary.entryPoints.length > 0
+    ? `— not reachable from ${summary.entryPoints.length} entry points`
+    : '— imported by nothing (no entry points detected)';
+  process.stdout.write(`  ${yellow('🏝️  Unreachable Files')} ${dim(label)} ${dim(`(${summary.unreachableFiles.length})`)}\n`);
 
-  const shown = summary.orphanFiles.slice(0, 8);
+  const shown = summary.unreachableFiles.slice(0, 8);
   for (const f of shown) {
     process.stdout.write(`     ${gray(rel(f, projectRoot))}\n`);
   }
 
-  if (summary.orphanFiles.length > 8) {
-    process.stdout.write(`     ${gray(`... +${summary.orphanFiles.length - 8} more`)}\n`);
+  if (summary.unreachableFiles.length > 8) {
+    process.stdout.write(`     ${gray(`... +${summary.unreachableFiles.length - 8} more`)}\n`);
   }
   process.stdout.write('\n');
 }
@@ -100,7 +144,7 @@ function printOrphans(summary: GraphSummary, projectRoot: string): void {
 function printGodModules(summary: GraphSummary, projectRoot: string): void {
   if (summary.godModules.length === 0) return;
 
-  process.stdout.write(`  ${red('🕸️  God Modules')} ${dim('— imported by 20+ files')} ${dim(`(${summary.godModules.length})`)}\n`);
+  process.stdout.write(`  ${red('🕸️  God Modules')} ${dim(`— imported by ${summary.thresholds.godModule}+ files`)} ${dim(`(${summary.godModules.length})`)}\n`);
 
   for (const { path: filePath, dependentCount } of summary.godModules.slice(0, 5)) {
     const label = `${dependentCount} dependents`;
@@ -113,7 +157,7 @@ function printGodModules(summary: GraphSummary, projectRoot: string): void {
 function printHighImpact(summary: GraphSummary, projectRoot: string): void {
   if (summary.highImpactFiles.length === 0) return;
 
-  process.stdout.write(`  ${red('💣 High-Impact Files')} ${dim('— editing these affects the most files')}\n`);
+  process.stdout.write(`  ${red('💣 High-Impact Files')} ${dim(`— editing these affects ${summary.thresholds.highImpact}+ files`)}\n`);
 
   for (const { path: filePath, affectedCount } of summary.highImpactFiles.slice(0, 5)) {
     const label = `${affectedCount} files affected`;
@@ -123,15 +167,83 @@ function printHighImpact(summary: GraphSummary, projectRoot: string): void {
   process.stdout.write('\n');
 }
 
-function printFooter(projectRoot: string): void {
-  const graphPath = path.join(projectRoot, '.whobreaks', 'graph.json');
-  process.stdout.write(`  ${green('📁')} Output: ${dim(path.relative(process.cwd(), graphPath))}\n`);
+function printViolations(violations: RuleViolation[], projectRoot: string): void {
+  if (violations.length === 0) return;
+
+  const errors = violations.filter((v) => v.severity === 'error').length;
+  const counts = errors === violations.length
+    ? `${errors}`
+    : `${errors} errors, ${violations.length - errors} warnings`;
+  process.stdout.write(`  ${red('🚧 Architecture Violations')} ${dim(`(${counts})`)}\n`);
+
+  for (const v of violations.slice(0, 10)) {
+    const color = v.severity === 'error' ? red : yellow;
+    const location = `${rel(v.source, projectRoot)}:${v.line}`;
+    process.stdout.write(`     ${color(v.severity === 'error' ? '✖' : '▲')} ${cyan(location)} ${gray('→')} ${rel(v.target, projectRoot)}\n`);
+    process.stdout.write(`       ${dim(v.message)}\n`);
+  }
+
+  if (violations.length > 10) {
+    process.stdout.write(`     ${gray(`... +${violations.length - 10} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printBrokenImports(broken: BrokenImport[], projectRoot: string): void {
+  if (broken.length === 0) return;
+
+  process.stdout.write(`  ${red('🔌 Broken Imports')} ${dim(`(${broken.length})`)}\n`);
+  for (const b of broken.slice(0, 10)) {
+    const location = `${rel(b.source, projectRoot)}:${b.line}`;
+    process.stdout.write(`     ${cyan(location)} ${gray(`'${b.rawSpecifier}'`)}\n`);
+    process.stdout.write(`       ${dim(b.message)}\n`);
+  }
+
+  if (broken.length > 10) {
+    process.stdout.write(`     ${gray(`... +${broken.length - 10} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printDependencyIssues(issues: DependencyIssue[], projectRoot: string): void {
+  if (issues.length === 0) return;
+
+  process.stdout.write(`  ${yellow('📦 npm Dependency Issues')} ${dim(`(${issues.length})`)}\n`);
+  for (const d of issues.slice(0, 10)) {
+    const location = d.file ? `${rel(d.file, projectRoot)}:${d.line}` : rel(d.manifest, projectRoot);
+    process.stdout.write(`     ${gray(d.kind.padEnd(10))} ${bold(d.package)} ${cyan(location)}\n`);
+  }
+
+  if (issues.length > 10) {
+    process.stdout.write(`     ${gray(`... +${issues.length - 10} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printDeadExports(dead: DeadExport[], projectRoot: string): void {
+  if (dead.length === 0) return;
+
+  process.stdout.write(`  ${yellow('🪦 Dead Exports')} ${dim('— exported but never imported')} ${dim(`(${dead.length})`)}\n`);
+  for (const d of dead.slice(0, 10)) {
+    const location = `${rel(d.file, projectRoot)}:${d.line}`;
+    process.stdout.write(`     ${bold(d.name)} ${cyan(location)} ${gray(d.isReExport ? 're-export' : d.kind)}\n`);
+  }
+
+  if (dead.length > 10) {
+    process.stdout.write(`     ${gray(`... +${dead.length - 10} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printFooter(projectRoot: string, fileName = 'graph.json'): void {
+  const outputPath = path.join(resolveOutputDir(projectRoot), fileName);
+  process.stdout.write(`  ${green('📁')} Output: ${dim(path.relative(process.cwd(), outputPath))}\n`);
   process.stdout.write('\n');
 }
 
 export function printScanResult(result: ScanResult, projectRoot: string): void {
   printHeader();
-  printScanProgress(result.fileCount, result.elapsedMs);
+  printScanProgress(result);
 
   if (result.fileCount === 0) {
     process.stdout.write(`  ${yellow('No TypeScript/JavaScript files found.')}\n\n`);
@@ -139,17 +251,26 @@ export function printScanResult(result: ScanResult, projectRoot: string): void {
   }
 
   printSummaryBox(result.summary, projectRoot);
+  printEntryPoints(result.summary, projectRoot);
 
   const hasIssues =
+    result.violations.length > 0 ||
+    result.broken.length > 0 ||
+    result.dependencyIssues.length > 0 ||
+    result.deadExports.length > 0 ||
     result.summary.circularDependencies.length > 0 ||
-    result.summary.orphanFiles.length > 0 ||
+    result.summary.unreachableFiles.length > 0 ||
     result.summary.godModules.length > 0 ||
     result.summary.highImpactFiles.length > 0;
 
   if (hasIssues) {
     process.stdout.write(`  ${bold('⚠️  Issues Found:')}\n\n`);
+    printViolations(result.violations, projectRoot);
+    printBrokenImports(result.broken, projectRoot);
+    printDependencyIssues(result.dependencyIssues, projectRoot);
     printCircularDeps(result.summary, projectRoot);
-    printOrphans(result.summary, projectRoot);
+    printUnreachable(result.summary, projectRoot);
+    printDeadExports(result.deadExports, projectRoot);
     printGodModules(result.summary, projectRoot);
     printHighImpact(result.summary, projectRoot);
   } else {
@@ -159,6 +280,363 @@ export function printScanResult(result: ScanResult, projectRoot: string): void {
   printFooter(projectRoot);
 }
 
+function printFileList(title: string, files: string[], projectRoot: string, limit = 20): void {
+  if (files.length === 0) return;
+
+  process.stdout.write(`  ${bold(title)} ${dim(`(${files.length})`)}\n`);
+  for (const f of files.slice(0, limit)) {
+    process.stdout.write(`     ${cyan(rel(f, projectRoot))}\n`);
+  }
+  if (files.length > limit) {
+    process.stdout.write(`     ${gray(`... +${files.length - limit} more`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+export function printImpact(impact: ImpactAnalysis, projectRoot: string): void {
+  process.stdout.write('\n');
+  process.stdout.write(`  ${red('💣 Impact')} ${cyan(rel(impact.file, projectRoot))} ${gray('→')} ${yellow(`${impact.totalAffected} files affected`)}\n\n`);
+
+  if (impact.totalAffected === 0) {
+    process.stdout.write(`  ${green('✅ Nothing depends on this file')}\n\n`);
+    printCoChanged(impact, projectRoot);
+    return;
+  }
+
+  printFileList('Direct dependents', impact.directDependents, projectRoot);
+  printFileList('Transitive dependents', impact.transitiveDependents, projectRoot);
+
+  if (impact.criticalExports.length > 0) {
+    process.stdout.write(`  ${bold('High-usage exports:')} ${impact.criticalExports.join(', ')}\n\n`);
+  }
+
+  printAffectedOwners(impact);
+  printCoChanged(impact, projectRoot);
+}
+
+function printCoChanged(impact: ImpactAnalysis, projectRoot: string): void {
+  if (!impact.coChanged || impact.coChanged.length === 0) return;
+
+  process.stdout.write(`  ${bold('🕰️  Historically co-changed')} ${dim('— not a dependent, but changed together in git')} ${dim(`(${impact.coChanged.length})`)}\n`);
+  for (const c of impact.coChanged.slice(0, 20)) {
+    const stats = `${c.support} commits, ${Math.round(c.confidence * 100)}%`;
+    process.stdout.write(`     ${cyan(rel(c.file, projectRoot).padEnd(42))} ${gray(stats)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+function printAffectedOwners(impact: ImpactAnalysis): void {
+  if (impact.affectedOwners.length === 0 && impact.owners.length === 0) return;
+
+  if (impact.owners.length > 0) {
+    process.stdout.write(`  ${bold('Owned by:')} ${impact.owners.join(', ')}\n\n`);
+  }
+
+  process.stdout.write(`  ${bold('👥 Teams affected')} ${dim(`(${impact.teamsAffected})`)}\n`);
+  for (const { owner, files } of impact.affectedOwners) {
+    process.stdout.write(`     ${blue(owner.padEnd(32))} ${gray('→')} ${yellow(`${files.length} files`)}\n`);
+  }
+  if (impact.unownedFiles.length > 0) {
+    process.stdout.write(`     ${gray('(no owner)'.padEnd(32))} ${gray('→')} ${gray(`${impact.unownedFiles.length} files`)}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+export function printSymbolImpact(impact: SymbolImpact, projectRoot: string): void {
+  const target = `${rel(impact.file, projectRoot)}#${impact.symbol}`;
+  process.stdout.write('\n');
+
+  if (!impact.exported) {
+    process.stdout.write(`  ${yellow(`No export named ${impact.symbol} in ${rel(impact.file, projectRoot)}`)}\n\n`);
+    return;
+  }
+
+  process.stdout.write(`  ${red('💣 Symbol impact')} ${cyan(target)} ${gray('→')} ${yellow(`${impact.totalAffected} files affected`)}\n\n`);
+
+  if (impact.reExportedBy.length > 0) {
+    process.stdout.write(`  ${bold('Re-exported by')} ${dim(`(${impact.reExportedBy.length})`)}\n`);
+    for (const { file, name } of impact.reExportedBy) {
+      process.stdout.write(`     ${cyan(rel(file, projectRoot))} ${gray(`as ${name}`)}\n`);
+    }
+    process.stdout.write('\n');
+  }
+
+  if (impact.totalAffected === 0) {
+    process.stdout.write(`  ${green('✅ Nothing uses this export')}\n\n`);
+    return;
+  }
+
+  printFileList('Direct consumers', impact.directConsumers, projectRoot);
+  printFileList('Transitive dependents', impact.transitiveDependents, projectRoot);
+}
+
+export function printPackageImpact(impact: PackageImpact, projectRoot: string): void {
+  process.stdout.write('\n');
+  process.stdout.write(`  ${red('💣 Package impact')} ${cyan(impact.name)} ${gray('→')} ${yellow(`${impact.totalAffected} files affected`)}\n\n`);
+
+  if (impact.totalAffected === 0) {
+    process.stdout.write(`  ${green(`✅ No file imports ${impact.name}`)}\n\n`);
+    return;
+  }
+
+  if (impact.symbols.length > 0) {
+    process.stdout.write(`  ${bold('Symbols used:')} ${impact.symbols.join(', ')}\n\n`);
+  }
+  printFileList('Direct importers', impact.directImporters, projectRoot);
+  printFileList('Transitive dependents', impact.transitiveDependents, projectRoot);
+}
+
+export function printDiffImpact(diff: DiffImpact, projectRoot: string): void {
+  const source = diff.baseRef ? `${diff.baseRef}...HEAD` : 'working tree';
+  process.stdout.write('\n');
+  process.stdout.write(`  ${bold('🔀 Change impact')} ${dim(`(${source})`)}\n\n`);
+
+  if (diff.changedFiles.length === 0 && diff.unanalyzedFiles.length === 0) {
+    process.stdout.write(`  ${green('✅ No changed source files')}\n\n`);
+  }
+  if (diff.changedFiles.length > 0) {
+    process.stdout.write(`  ${bold('Changed files')} ${dim(`(${diff.changedFiles.length})`)}\n`);
+    for (const c of diff.changedFiles) {
+      const label = `${c.totalAffected} files affected`;
+      process.stdout.write(`     ${cyan(rel(c.file, projectRoot).padEnd(42))} ${gray('→')} ${yellow(label)}\n`);
+    }
+    process.stdout.write('\n');
+  }
+  if (diff.unanalyzedFiles.length > 0) {
+    process.stdout.write(`  ${bold('Deleted or unanalyzed')} ${dim(`(${diff.unanalyzedFiles.length})`)}\n`);
+    for (const f of diff.unanalyzedFiles) {
+      process.stdout.write(`     ${gray(rel(f, projectRoot))}\n`);
+    }
+    process.stdout.write('\n');
+  }
+
+  if (diff.affectedFiles.length > 0) {
+    process.stdout.write(`  ${red('💣 Affected files')} ${dim(`(${diff.totalAffected})`)}\n`);
+    for (const a of diff.affectedFiles.slice(0, 30)) {
+      const hops = a.distance === 1 ? 'direct' : `${a.distance} hops`;
+      process.stdout.write(`     ${cyan(rel(a.file, projectRoot).padEnd(42))} ${gray(hops)}\n`);
+    }
+    if (diff.affectedFiles.length > 30) {
+      process.stdout.write(`     ${gray(`... +${diff.affectedFiles.length - 30} more`)}\n`);
+    }
+    process.stdout.write('\n');
+  } else if (diff.changedFiles.length > 0 || diff.unanalyzedFiles.length > 0) {
+    process.stdout.write(`  ${green('✅ Nothing else depends on these changes')}\n\n`);
+  }
+
+  printFooter(projectRoot, 'diff.md');
+}
+
+export function printCycles(
+  circular: CircularDependency[],
+  plans: CycleBreakPlan[] | null,
+  projectRoot: string
+): void {
+  process.stdout.write('\n');
+
+  if (circular.length === 0) {
+    process.stdout.write(`  ${green('✅ No circular dependencies')}\n\n`);
+    return;
+  }
+
+  process.stdout.write(`  ${red('🔄 Circular Dependencies')} ${dim(`(${circular.length} tangles)`)}\n\n`);
+
+  circular.forEach((tangle, i) => {
+    process.stdout.write(`  ${bold(`#${i + 1}`)} ${yellow(`${tangle.size} files`)} ${dim(`${tangle.edges.length} edges`)}\n`);
+    for (const cycle of tangle.cycles) {
+      process.stdout.write(`     ${cycle.map((f) => cyan(rel(f, projectRoot))).join(' → ')}\n`);
+    }
+
+    const plan = plans?.[i];
+    if (plan) {
+      process.stdout.write(`     ${bold('✂️  Cut')} ${dim(`(${plan.cuts.length} imports)`)}\n`);
+      for (const cut of plan.cuts) {
+        for (const imp of cut.imports) {
+          const kind = imp.isTypeOnly ? gray(' type-only') : '';
+          const symbols = imp.symbols.length > 0 ? `{ ${imp.symbols.join(', ')} }` : gray('side effect');
+          process.stdout.write(`       ${cyan(`${rel(cut.source, projectRoot)}:${imp.line}`)} ${gray('→')} ${rel(cut.target, projectRoot)} ${symbols}${kind}\n`);
+        }
+        process.stdout.write(`         ${dim(cut.hint)}\n`);
+      }
+    }
+    process.stdout.write('\n');
+  });
+}
+
+export function printAnalyzerComparison(comparison: AnalyzerComparison, projectRoot: string): void {
+  const { totalFiles, agreeingFiles, disagreements, byKind } = comparison;
+  process.stdout.write('\n');
+  process.stdout.write(`  ${bold('🔬 Regex vs precise analyzer')} ${dim(`(${fmt(agreeingFiles)}/${fmt(totalFiles)} files agree)`)}\n\n`);
+
+  if (disagreements.length === 0) {
+    process.stdout.write(`  ${green('✅ Both analyzers produce the same graph')}\n\n`);
+    return;
+  }
+
+  for (const [kind, count] of Object.entries(byKind)) {
+    process.stdout.write(`     ${yellow(kind.padEnd(16))} ${fmt(count)}\n`);
+  }
+  process.stdout.write('\n');
+
+  const show = (value: string | null) => {
+    if (!value) return gray('—');
+    return value.startsWith('/') ? rel(value, projectRoot) : value;
+  };
+  for (const d of disagreements.slice(0, 30)) {
+    const location = `${rel(d.file, projectRoot)}:${d.line}`;
+    process.stdout.write(`     ${cyan(location)} ${gray(d.kind)} ${d.subject}\n`);
+    process.stdout.write(`       ${dim('regex:')} ${show(d.regex)}  ${dim('precise:')} ${show(d.precise)}\n`);
+  }
+  if (disagreements.length > 30) {
+    process.stdout.write(`     ${gray(`... +${disagreements.length - 30} more`)}\n`);
+  }
+  process.stdout.write('\n');
+
+  printFooter(projectRoot, 'analyzer-diff.md');
+}
+
+export function printCoChange(report: CoChangeReport, projectRoot: string): void {
+  process.stdout.write('\n');
+  process.stdout.write(`  ${bold('🕰️  Co-change coupling')} ${dim(`(${report.commitsAnalyzed} commits analyzed)`)}\n\n`);
+
+  if (report.pairs.length === 0) {
+    process.stdout.write(`  ${green('✅ No files change together often enough to flag')}\n\n`);
+    return;
+  }
+
+  const printPairs = (pairs: CoChangeReport['pairs']) => {
+    for (const p of pairs.slice(0, 20)) {
+      const stats = `${p.support} commits, ${Math.round(p.confidence * 100)}%`;
+      process.stdout.write(`     ${cyan(rel(p.a, projectRoot))} ${gray('⇄')} ${cyan(rel(p.b, projectRoot))} ${gray(stats)}\n`);
+    }
+    if (pairs.length > 20) {
+      process.stdout.write(`     ${gray(`... +${pairs.length - 20} more`)}\n`);
+    }
+    process.stdout.write('\n');
+  };
+
+  if (report.hidden.length > 0) {
+    process.stdout.write(`  ${red('👻 Hidden coupling')} ${dim('— change together, no import path')} ${dim(`(${report.hidden.length})`)}\n`);
+    printPairs(report.hidden);
+  } else {
+    process.stdout.write(`  ${green('✅ Every co-changing pair is connected by imports')}\n\n`);
+  }
+
+  const explained = report.pairs.filter((p) => p.hasImportPath);
+  if (explained.length > 0) {
+    process.stdout.write(`  ${bold('Coupled through imports')} ${dim(`(${explained.length})`)}\n`);
+    printPairs(explained);
+  }
+}
+
+export function printGraphComparison(comparison: GraphComparison, projectRoot: string): void {
+  const c = comparison;
+  const change = (before: number, after: number) => {
+    const d = after - before;
+    const label = `${fmt(before)} → ${fmt(after)}`;
+    return d > 0 ? yellow(`${label} (+${d})`) : d < 0 ? green(`${label} (${d})`) : gray(label);
+  };
+
+  process.stdout.write('\n');
+  process.stdout.write(`  ${bold('🧭 Architecture changes')} ${dim(`(${c.before} → ${c.after})`)}\n\n`);
+  process.stdout.write(`     ${'Files'.padEnd(24)} ${change(c.totals.files.before, c.totals.files.after)}\n`);
+  process.stdout.write(`     ${'Import edges'.padEnd(24)} ${change(c.totals.edges.before, c.totals.edges.after)}\n`);
+  process.stdout.write(`     ${'Circular dependencies'.padEnd(24)} ${change(c.totals.cycles.before, c.totals.cycles.after)}\n`);
+  process.stdout.write('\n');
+
+  const printList = (items: string[]) => {
+    for (const item of items.slice(0, 20)) process.stdout.write(`     ${item}\n`);
+    if (items.length > 20) process.stdout.write(`     ${gray(`... +${items.length - 20} more`)}\n`);
+    process.stdout.write('\n');
+  };
+
+  if (c.removedExports.length > 0) {
+    process.stdout.write(`  ${red('❌ Removed exports still imported')} ${dim(`(${c.removedExports.length})`)}\n`);
+    printList(c.removedExports.map((r) => {
+      const importers = r.importers.map((i) => `${i.file}:${i.line}`);
+      return `${bold(r.name)} ${gray('from')} ${cyan(r.file)} ${gray('←')} ${importers.slice(0, 3).join(', ')}${importers.length > 3 ? gray(` +${importers.length - 3} more`) : ''}`;
+    }));
+  }
+
+  if (c.newCycles.length > 0 || c.changedCycles.length > 0) {
+    process.stdout.write(`  ${red('🔄 New or changed cycles')} ${dim(`(${c.newCycles.length + c.changedCycles.length})`)}\n`);
+    printList([
+      ...c.newCycles.map((files) => `${yellow('new')} ${files.map(cyan).join(gray(', '))}`),
+      ...c.changedCycles.map((ch) => `${yellow(`${ch.before.length} → ${ch.after.length} files`)} ${ch.after.map(cyan).join(gray(', '))}`),
+    ]);
+  }
+  if (c.resolvedCycles.length > 0) {
+    process.stdout.write(`  ${green('✅ Resolved cycles')} ${dim(`(${c.resolvedCycles.length})`)}\n`);
+    printList(c.resolvedCycles.map((files) => files.map(cyan).join(gray(', '))));
+  }
+
+  const printMetric = (title: string, label: string, changes: FileMetricChange[]) => {
+    if (changes.length === 0) return;
+    process.stdout.write(`  ${bold(title)} ${dim(`(${changes.length})`)}\n`);
+    printList(changes.map((m) => {
+      const status = m.status === 'new' ? red('new') : m.status === 'resolved' ? green('resolved') : gray('changed');
+      return `${cyan(m.file.padEnd(42))} ${status.padEnd(17)} ${m.before} → ${m.after} ${label}`;
+    }));
+  };
+  printMetric('🕸️  God modules', 'dependents', c.godModules);
+  printMetric('💣 High-impact files', 'files affected', c.highImpactFiles);
+
+  if (c.addedFiles.length > 0 || c.removedFiles.length > 0) {
+    process.stdout.write(`  ${bold('📁 Files')} ${dim(`(+${c.addedFiles.length} / -${c.removedFiles.length})`)}\n`);
+    printList([...c.addedFiles.map((f) => `${green('+')} ${f}`), ...c.removedFiles.map((f) => `${red('-')} ${f}`)]);
+  }
+
+  if (c.addedEdges.length > 0 || c.removedEdges.length > 0) {
+    process.stdout.write(`  ${bold('🔗 Imports')} ${dim(`(+${c.addedEdges.length} / -${c.removedEdges.length})`)}\n`);
+    printList([
+      ...c.addedEdges.map((e) => `${green('+')} ${e.source} ${gray('→')} ${e.target}`),
+      ...c.removedEdges.map((e) => `${red('-')} ${e.source} ${gray('→')} ${e.target}`),
+    ]);
+  }
+
+  printFooter(projectRoot, 'compare.md');
+}
+
+export function printCheckResult(result: CheckResult, baselineUpdated: boolean): void {
+  const tolerated = result.failures.filter((f) => !result.regressions.includes(f));
+  const source = result.baselineFile ? `baseline: ${result.baselineFile}` : 'no baseline';
+  process.stdout.write('\n');
+  process.stdout.write(`  ${bold('🚦 Architecture check')} ${dim(`(${source})`)}\n\n`);
+
+  if (baselineUpdated) {
+    process.stdout.write(`  ${green(`✅ Baseline updated with ${result.failures.length} known failures`)}\n\n`);
+    return;
+  }
+
+  if (result.regressions.length > 0) {
+    process.stdout.write(`  ${red('❌ Budget regressions')} ${dim(`(${result.regressions.length})`)}\n`);
+    for (const f of result.regressions) {
+      const was = f.baseline !== null ? gray(` (baseline: ${f.baseline})`) : '';
+      process.stdout.write(`     ${yellow(f.budget.padEnd(14))} ${f.message}${was}\n`);
+    }
+    process.stdout.write('\n');
+  }
+
+  if (tolerated.length > 0) {
+    process.stdout.write(`  ${gray(`⏸️  ${tolerated.length} known failures tolerated by the baseline`)}\n\n`);
+  }
+
+  if (result.fixed.length > 0) {
+    process.stdout.write(`  ${green('📉 Improved since the baseline')} ${dim(`(${result.fixed.length})`)}\n`);
+    for (const key of result.fixed.slice(0, 10)) {
+      process.stdout.write(`     ${gray(key)}\n`);
+    }
+    if (result.fixed.length > 10) {
+      process.stdout.write(`     ${gray(`... +${result.fixed.length - 10} more`)}\n`);
+    }
+    process.stdout.write(`     ${dim('Run with --update-baseline to lock in the improvement')}\n\n`);
+  }
+
+  if (result.passed) {
+    process.stdout.write(`  ${green('✅ All architecture budgets pass')}\n\n`);
+  }
+}
+
 export function printWatchEvent(event: 'change' | 'add' | 'unlink', filePath: string, projectRoot: string): void {
   const icons = { change: '~', add: '+', unlink: '-' };
   const colors = { change: yellow, add: green, unlink: red };
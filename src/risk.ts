@@ -0,0 +1,108 @@
+import type { DependencyGraph, RiskFactor, RiskFactorName, RiskScore } from './types.js';
+import { getCachedCommitHistory, type CommitFiles } from './git.js';
+import type { WhobreaksConfig } from './config.js';
+import { analyzeDepth, findStronglyConnectedComponents } from './graph.js';
+
+const FACTORS: RiskFactorName[] = ['impact', 'churn', 'authors', 'lines', 'cycle', 'fanOut'];
+
+function logScale(value: number, max: number): number {
+  return max > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+}
+
+export function computeRiskScores(
+  graph: DependencyGraph,
+  commits: CommitFiles[],
+  config: Pick<WhobreaksConfig, 'risk' | 'thresholds'>
+): Map<string, RiskScore> {
+  const { weights } = config.risk;
+  const { highRisk, mediumRisk } = config.thresholds;
+  const components = findStronglyConnectedComponents(graph);
+  const { affectedCount } = analyzeDepth(graph, components);
+
+  const inCycle = new Set<string>();
+  for (const files of components) {
+    if (files.length > 1) files.forEach((f) => inCycle.add(f));
+  }
+
+  const churn = new Map<string, number>();
+  const authors = new Map<string, Set<string>>();
+  for (const commit of commits) {
+    for (const file of commit.files) {
+      if (!graph.nodes.has(file)) continue;
+      churn.set(file, (churn.get(file) ?? 0) + 1);
+      let set = authors.get(file);
+      if (!set) {
+        set = new Set();
+        authors.set(file, set);
+      }
+      set.add(commit.author);
+    }
+  }
+
+  const raw = new Map<string, Record<RiskFactorName, number>>();
+  const max: Record<RiskFactorName, number> = { impact: 0, churn: 0, authors: 0, lines: 0, cycle: 1, fanOut: 0 };
+  for (const [file, node] of graph.nodes) {
+    const values = {
+      impact: affectedCount.get(file) ?? 0,
+      churn: churn.get(file) ?? 0,
+      authors: authors.get(file)?.size ?? 0,
+      lines: node.linesOfCode,
+      cycle: inCycle.has(file) ? 1 : 0,
+      fanOut: graph.dependencies.get(file)?.size ?? 0,
+    };
+    raw.set(file, values);
+    for (const name of FACTORS) max[name] = Math.max(max[name], values[name]);
+  }
+
+  const totalWeight = FACTORS.reduce((sum, name) => sum + weights[name], 0);
+  const scores = new Map<string, RiskScore>();
+  for (const [file, values] of raw) {
+    const factors = {} as Record<RiskFactorName, RiskFactor>;
+    let score = 0;
+    for (const name of FACTORS) {
+      const normalized = name === 'cycle' ? values.cycle : logScale(values[name], max[name]);
+      const contribution = totalWeight > 0 ? (100 * weights[name] * normalized) / totalWeight : 0;
+      factors[name] = { value: values[name], normalized, weight: weights[name], contribution };
+      score += contribution;
+    }
+
+    scores.set(file, {
+      file,
+      score: Math.round(score),
+      level: score >= highRisk ? 'HIGH' : score >= mediumRisk ? 'MEDIUM' : 'LOW',
+      factors,
+    });
+  }
+
+  return scores;
+}
+
+const scoreCache = new WeakMap<DependencyGraph, {
+  version: number;
+  commits: CommitFiles[];
+  key: string;
+  scores: Map<string, RiskScore>;
+}>();
+
+// Scores only change with the graph, the git history or the config.
+export function getRiskScores(
+  graph: DependencyGraph,
+  config: Pick<WhobreaksConfig, 'risk' | 'thresholds'>
+): Map<string, RiskScore> {
+  const key = JSON.stringify([config.risk, config.thresholds]);
+  const commits = getCachedCommitHistory(graph.projectRoot);
+  const cached = scoreCache.get(graph);
+  if (cached && cached.version === graph.version && cached.commits === commits && cached.key === key) {
+    return cached.scores;
+  }
+
+  const scores = computeRiskScores(graph, commits, config);
+  scoreCache.set(graph, { version: graph.version, commits, key, scores });
+  return scores;
+}
+
+export function topRiskHotspots(scores: Map<string, RiskScore>, limit = 10): RiskScore[] {
+  return Array.from(scores.values())
+    .sort((a, b) => b.score - a.score || a.file.localeCompare(b.file))
+    .slice(0, limit);
+}
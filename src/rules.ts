@@ -0,0 +1,103 @@
+import type { DependencyGraph, FileNode, ImportEdge, RuleViolation } from './types.js';
+import type { ArchitectureRule } from './config.js';
+import { detectCircularDependencies } from './graph.js';
+import { matchesGlob, toPosixRelative } from './glob.js';
+
+function ruleName(rule: ArchitectureRule): string {
+  if (rule.name) return rule.name;
+  switch (rule.type) {
+    case 'forbidden':
+      return `${rule.from.join(',')} must not import ${rule.to.join(',')}`;
+    case 'allowed':
+      return `${rule.from.join(',')} may only import ${rule.allow.join(',')}`;
+    case 'no-cycles':
+      return `no cycles within ${rule.within.join(',')}`;
+  }
+}
+
+function internalImports(graph: DependencyGraph, node: FileNode): ImportEdge[] {
+  return node.imports.filter(
+    (imp) => imp.target && imp.target !== node.path && graph.nodes.has(imp.target)
+  );
+}
+
+function violation(
+  rule: ArchitectureRule,
+  imp: ImportEdge,
+  message: string,
+  cycle?: string[]
+): RuleViolation {
+  return {
+    rule: ruleName(rule),
+    type: rule.type,
+    severity: rule.severity,
+    source: imp.source,
+    target: imp.target,
+    line: imp.line,
+    rawSpecifier: imp.rawSpecifier,
+    message: rule.message ?? message,
+    ...(cycle ? { cycle } : {}),
+  };
+}
+
+function checkImportRule(
+  graph: DependencyGraph,
+  rule: Extract<ArchitectureRule, { type: 'forbidden' | 'allowed' }>
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+
+  for (const node of graph.nodes.values()) {
+    const sourceRel = rel(node.path);
+    if (!matchesGlob(sourceRel, rule.from)) continue;
+
+    for (const imp of internalImports(graph, node)) {
+      const targetRel = rel(imp.target);
+      if (rule.type === 'forbidden') {
+        if (!matchesGlob(targetRel, rule.to)) continue;
+        violations.push(violation(rule, imp, `${sourceRel} must not import ${targetRel}`));
+      } else {
+        if (matchesGlob(targetRel, rule.from) || matchesGlob(targetRel, rule.allow)) continue;
+        violations.push(violation(rule, imp, `${sourceRel} is not allowed to import ${targetRel}`));
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkCycleRule(
+  graph: DependencyGraph,
+  rule: Extract<ArchitectureRule, { type: 'no-cycles' }>
+): RuleViolation[] {
+  const nodes = new Map<string, FileNode>();
+  for (const [filePath, node] of graph.nodes) {
+    if (matchesGlob(toPosixRelative(graph.projectRoot, filePath), rule.within)) {
+      nodes.set(filePath, node);
+    }
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const { cycle, size } of detectCircularDependencies({ ...graph, nodes })) {
+    const [source, target] = cycle;
+    const imp = nodes.get(source)?.imports.find((i) => i.target === target);
+    if (!imp) continue;
+    const path = cycle.map((p) => toPosixRelative(graph.projectRoot, p)).join(' → ');
+    violations.push(violation(rule, imp, `Circular dependency (${size} files): ${path}`, cycle));
+  }
+
+  return violations;
+}
+
+export function checkRules(graph: DependencyGraph, rules: ArchitectureRule[]): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  for (const rule of rules) {
+    const found = rule.type === 'no-cycles'
+      ? checkCycleRule(graph, rule)
+      : checkImportRule(graph, rule);
+    for (const v of found) violations.push(v);
+  }
+
+  return violations;
+}
@@ -0,0 +1,196 @@
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  DependencyGraph,
+  GraphSummary,
+  RuleViolation,
+  BrokenImport,
+  DeadExport,
+} from './types.js';
+import { toPosixRelative } from './glob.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_VERSION = '0.1.0';
+const INFORMATION_URI = 'https://github.com/f1729/whobreaks';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region: { startLine: number };
+  };
+  message?: { text: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifFindings {
+  summary: GraphSummary;
+  violations: RuleViolation[];
+  broken: BrokenImport[];
+  deadExports: DeadExport[];
+}
+
+const RULES: Array<SarifRule & { key: string }> = [
+  {
+    key: 'cycle',
+    id: 'whobreaks/circular-dependency',
+    name: 'CircularDependency',
+    shortDescription: { text: 'Files import each other in a cycle' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  {
+    key: 'violation',
+    id: 'whobreaks/architecture-rule',
+    name: 'ArchitectureRule',
+    shortDescription: { text: 'Import breaks an architecture rule from whobreaks.config.json' },
+    defaultConfiguration: { level: 'error' },
+  },
+  {
+    key: 'missing-file',
+    id: 'whobreaks/missing-file',
+    name: 'MissingFile',
+    shortDescription: { text: 'Import points at a file that does not exist' },
+    defaultConfiguration: { level: 'error' },
+  },
+  {
+    key: 'unmatched-alias',
+    id: 'whobreaks/unmatched-alias',
+    name: 'UnmatchedAlias',
+    shortDescription: { text: 'Import matches a path alias or workspace package with no file behind it' },
+    defaultConfiguration: { level: 'error' },
+  },
+  {
+    key: 'missing-export',
+    id: 'whobreaks/missing-export',
+    name: 'MissingExport',
+    shortDescription: { text: 'Imported name is not exported by the target file' },
+    defaultConfiguration: { level: 'error' },
+  },
+  {
+    key: 'dead-export',
+    id: 'whobreaks/dead-export',
+    name: 'DeadExport',
+    shortDescription: { text: 'Export is not imported anywhere and is not reachable from an entry point' },
+    defaultConfiguration: { level: 'note' },
+  },
+  {
+    key: 'god-module',
+    id: 'whobreaks/god-module',
+    name: 'GodModule',
+    shortDescription: { text: 'File is imported by more files than the god module threshold' },
+    defaultConfiguration: { level: 'warning' },
+  },
+];
+
+export function buildSarifLog(graph: DependencyGraph, findings: SarifFindings): object {
+  const rel = (p: string) => toPosixRelative(graph.projectRoot, p);
+  const location = (file: string, line: number, text?: string): SarifLocation => ({
+    physicalLocation: {
+      artifactLocation: { uri: rel(file), uriBaseId: 'SRCROOT' },
+      region: { startLine: Math.max(line, 1) },
+    },
+    ...(text ? { message: { text } } : {}),
+  });
+  const importLine = (source: string, target: string) =>
+    graph.nodes.get(source)?.imports.find((imp) => imp.target === target)?.line ?? 1;
+
+  const results: SarifResult[] = [];
+  const report = (
+    key: string,
+    level: SarifLevel | null,
+    text: string,
+    locations: SarifLocation[],
+    extra: Pick<SarifResult, 'relatedLocations' | 'properties'> = {}
+  ) => {
+    const ruleIndex = RULES.findIndex((r) => r.key === key);
+    const rule = RULES[ruleIndex];
+    results.push({
+      ruleId: rule.id,
+      ruleIndex,
+      level: level ?? rule.defaultConfiguration.level,
+      message: { text },
+      locations,
+      ...extra,
+    });
+  };
+
+  for (const { cycle, files } of findings.summary.circularDependencies) {
+    const steps = cycle.slice(0, -1).map((source, i) => ({ source, target: cycle[i + 1] }));
+    const [first, ...rest] = steps.length > 0 ? steps : [{ source: files[0], target: files[0] }];
+    report(
+      'cycle',
+      null,
+      `Circular dependency across ${files.length} files: ${cycle.map(rel).join(' → ')}`,
+      [location(first.source, importLine(first.source, first.target))],
+      {
+        relatedLocations: rest.map((s) => location(s.source, importLine(s.source, s.target), `imports ${rel(s.target)}`)),
+        properties: { files: files.map(rel) },
+      }
+    );
+  }
+
+  for (const v of findings.violations) {
+    report('violation', v.severity, `${v.rule}: ${v.message}`, [location(v.source, v.line)], {
+      properties: { rule: v.rule, type: v.type, target: rel(v.target) },
+    });
+  }
+
+  for (const b of findings.broken) {
+    report(b.kind, null, b.message, [location(b.source, b.line)], {
+      properties: { specifier: b.rawSpecifier },
+    });
+  }
+
+  for (const d of findings.deadExports) {
+    const what = d.isReExport ? 're-export' : d.kind;
+    report('dead-export', null, `${d.name} (${what}) is exported but never imported`, [location(d.file, d.line)]);
+  }
+
+  for (const { path: file, dependentCount } of findings.summary.godModules) {
+    report(
+      'god-module',
+      null,
+      `${rel(file)} is imported by ${dependentCount} files (threshold: ${findings.summary.thresholds.godModule})`,
+      [location(file, 1)],
+      { properties: { dependentCount } }
+    );
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'whobreaks',
+            version: TOOL_VERSION,
+            informationUri: INFORMATION_URI,
+            rules: RULES.map(({ key, ...rule }) => rule),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(graph.projectRoot + path.sep).href },
+        },
+        results,
+      },
+    ],
+  };
+}
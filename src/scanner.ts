@@ -1,28 +1,63 @@
 import * as path from 'node:path';
 import { writeFileSync, mkdirSync, readdirSync } from 'node:fs';
-import { loadPathAliases, analyzeFiles } from './analyzer.js';
+import { loadResolverContext, analyzeFiles } from './analyzer.js';
 import { createGraph, addNode, getSummary, serializeGraph } from './graph.js';
-import type { DependencyGraph, ScanOptions, GraphSummary } from './types.js';
-
-const DEFAULT_EXCLUDE = [
-  'node_modules',
-  '.whobreaks',
-  'dist',
-  'build',
-  '.next',
-  '.nuxt',
-  'coverage',
-  '.git',
-  '__pycache__',
-  '.cache',
-  '.turbo',
-  'out',
-  '.vercel',
-];
-
-const TS_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs']);
-
-function collectFiles(dir: string, excludeDirs: Set<string>): string[] {
+import { serializeDiffImpact, buildDiffMarkdown } from './diff.js';
+import { buildCompareMarkdown } from './compare.js';
+import { loadConfig, resolveOutputDir, DEFAULT_EXCLUDE, type WhobreaksConfig } from './config.js';
+import { matchesGlob, toPosixRelative } from './glob.js';
+import { computeFingerprint, loadScanCache, saveScanCache } from './cache.js';
+import { checkRules } from './rules.js';
+import { findBrokenImports } from './broken.js';
+import { checkPackageDependencies } from './externals.js';
+import { findDeadExports } from './symbols.js';
+import { detectEntryPoints } from './entries.js';
+import type { Workspace } from './packages.js';
+import { getRiskScores, topRiskHotspots } from './risk.js';
+import { buildSarifLog } from './sarif.js';
+import { analyzeFilesPrecise, buildAnalyzerDiffMarkdown } from './precise.js';
+import type {
+  DependencyGraph,
+  ScanOptions,
+  GraphSummary,
+  DiffImpact,
+  RuleViolation,
+  AnalyzerComparison,
+  GraphComparison,
+  BrokenImport,
+  DependencyIssue,
+  DeadExport,
+  RiskScore,
+} from './types.js';
+
+export interface FileFilter {
+  ignoresDir(relativePath: string): boolean;
+  accepts(relativePath: string): boolean;
+}
+
+export function createFileFilter(
+  config: WhobreaksConfig,
+  overrides: { include?: string[]; exclude?: string[] } = {}
+): FileFilter {
+  const include = [...config.include, ...(overrides.include ?? [])];
+  const exclude = [...config.exclude, ...(overrides.exclude ?? [])];
+  const excludedNames = new Set(DEFAULT_EXCLUDE);
+  const outputDir = config.outputDir.replace(/^\.\//, '').replace(/\/+$/, '');
+  const extensions = new Set(config.extensions);
+
+  return {
+    ignoresDir: (relativePath) =>
+      excludedNames.has(path.posix.basename(relativePath)) ||
+      relativePath === outputDir ||
+      (exclude.length > 0 && matchesGlob(relativePath, exclude)),
+    accepts: (relativePath) =>
+      extensions.has(path.extname(relativePath)) &&
+      !(exclude.length > 0 && matchesGlob(relativePath, exclude)) &&
+      (include.length === 0 || matchesGlob(relativePath, include)),
+  };
+}
+
+function collectFiles(projectRoot: string, dir: string, filter: FileFilter): string[] {
   const results: string[] = [];
 
   let entries: import('node:fs').Dirent[];
@@ -33,61 +68,104 @@ function collectFiles(dir: string, excludeDirs: Set<string>): string[] {
   }
 
   for (const entry of entries) {
-    if (excludeDirs.has(entry.name)) continue;
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = toPosixRelative(projectRoot, fullPath);
 
     if (entry.isDirectory()) {
-      const fullPath = path.join(dir, entry.name);
-      const sub = collectFiles(fullPath, excludeDirs);
+      if (filter.ignoresDir(relativePath)) continue;
+      const sub = collectFiles(projectRoot, fullPath, filter);
       for (let i = 0; i < sub.length; i++) results.push(sub[i]);
-    } else if (entry.isFile()) {
-      const ext = path.extname(entry.name);
-      if (TS_EXTENSIONS.has(ext)) {
-        results.push(path.join(dir, entry.name));
-      }
+    } else if (entry.isFile() && filter.accepts(relativePath)) {
+      results.push(fullPath);
     }
   }
 
   return results;
 }
 
-export interface ScanResult {
+export interface ScanFindings {
   graph: DependencyGraph;
+  config: WhobreaksConfig;
   summary: GraphSummary;
+  violations: RuleViolation[];
+  broken: BrokenImport[];
+  dependencyIssues: DependencyIssue[];
+  deadExports: DeadExport[];
+}
+
+export interface ScanResult extends ScanFindings {
   elapsedMs: number;
   fileCount: number;
+  analyzer: 'regex' | 'precise';
+  cache: { hits: number; misses: number; coldMs: number | null } | null;
 }
 
 export async function scanProject(options: ScanOptions): Promise<ScanResult> {
-  const { projectRoot, exclude = [], maxFiles } = options;
+  const { projectRoot, include, exclude, maxFiles, cache: useCache = true, workers, precise = false } = options;
 
-  const excludeSet = new Set([...DEFAULT_EXCLUDE, ...exclude]);
+  const config = loadConfig(projectRoot);
   const startTime = Date.now();
 
-  const allFiles = collectFiles(projectRoot, excludeSet);
+  const allFiles = collectFiles(projectRoot, projectRoot, createFileFilter(config, { include, exclude }));
   const files = maxFiles ? allFiles.slice(0, maxFiles) : allFiles;
 
-  const aliases = loadPathAliases(projectRoot);
+  const resolver = loadResolverContext(projectRoot);
   const graph = createGraph(projectRoot);
 
-  const nodes = await analyzeFiles(files, projectRoot, aliases);
+  const cache = useCache && !precise
+    ? loadScanCache(projectRoot, computeFingerprint(projectRoot))
+    : undefined;
+
+  const nodes = precise
+    ? await analyzeFilesPrecise(files, projectRoot)
+    : await analyzeFiles(files, projectRoot, resolver, { cache, workers });
   for (const node of nodes) {
     addNode(graph, node);
   }
 
-  const summary = getSummary(graph);
+  const findings = analyzeGraph(graph, config, resolver.workspace);
   const elapsedMs = Date.now() - startTime;
 
+  if (cache) saveScanCache(projectRoot, cache, files, elapsedMs);
+
   return {
-    graph,
-    summary,
+    ...findings,
     elapsedMs,
     fileCount: files.length,
+    analyzer: precise ? 'precise' : 'regex',
+    cache: cache ? { hits: cache.hits, misses: cache.misses, coldMs: cache.coldMs } : null,
   };
 }
 
-export function persistGraph(graph: DependencyGraph, projectRoot: string): void {
-  const outputDir = path.join(projectRoot, '.whobreaks');
+export function analyzeGraph(
+  graph: DependencyGraph,
+  config: WhobreaksConfig,
+  workspace?: Workspace
+): ScanFindings {
+  const entryPoints = detectEntryPoints(graph, config.entryPoints, workspace);
+  const summary = getSummary(graph, entryPoints, config.thresholds);
+  const deadExports = findDeadExports(graph, entryPoints.map((e) => e.file), summary.unreachableFiles);
+
+  return {
+    graph,
+    config,
+    summary,
+    violations: checkRules(graph, config.rules),
+    broken: findBrokenImports(graph),
+    dependencyIssues: checkPackageDependencies(graph, workspace),
+    deadExports,
+  };
+}
+
+function ensureOutputDir(projectRoot: string, config?: WhobreaksConfig): string {
+  const outputDir = resolveOutputDir(projectRoot, config);
   mkdirSync(outputDir, { recursive: true });
+  return outputDir;
+}
+
+export function persistGraph(findings: ScanFindings, projectRoot: string): void {
+  const { graph, config, summary, violations, broken, dependencyIssues, deadExports } = findings;
+  const outputDir = ensureOutputDir(projectRoot, config);
 
   const graphData = serializeGraph(graph);
   writeFileSync(
@@ -96,15 +174,68 @@ export function persistGraph(graph: DependencyGraph, projectRoot: string): void
     'utf-8'
   );
 
-  const summary = getSummary(graph);
+  const hotspots = topRiskHotspots(getRiskScores(graph, config));
   writeFileSync(
     path.join(outputDir, 'summary.md'),
-    buildSummaryMarkdown(summary, projectRoot),
+    buildSummaryMarkdown(summary, violations, broken, dependencyIssues, deadExports, hotspots, projectRoot),
+    'utf-8'
+  );
+  writeFileSync(
+    path.join(outputDir, 'results.sarif'),
+    JSON.stringify(buildSarifLog(graph, { summary, violations, broken, deadExports }), null, 2),
+    'utf-8'
+  );
+}
+
+export function persistDiffImpact(diff: DiffImpact, projectRoot: string): void {
+  const outputDir = ensureOutputDir(projectRoot);
+
+  writeFileSync(
+    path.join(outputDir, 'diff.json'),
+    JSON.stringify(serializeDiffImpact(diff, projectRoot), null, 2),
+    'utf-8'
+  );
+  writeFileSync(
+    path.join(outputDir, 'diff.md'),
+    buildDiffMarkdown(diff, projectRoot),
     'utf-8'
   );
 }
 
-function buildSummaryMarkdown(summary: GraphSummary, projectRoot: string): string {
+export function persistAnalyzerDiff(comparison: AnalyzerComparison, projectRoot: string): void {
+  const outputDir = ensureOutputDir(projectRoot);
+
+  writeFileSync(
+    path.join(outputDir, 'analyzer-diff.md'),
+    buildAnalyzerDiffMarkdown(comparison, projectRoot),
+    'utf-8'
+  );
+}
+
+export function persistGraphComparison(comparison: GraphComparison, projectRoot: string): void {
+  const outputDir = ensureOutputDir(projectRoot);
+
+  writeFileSync(
+    path.join(outputDir, 'compare.json'),
+    JSON.stringify(comparison, null, 2),
+    'utf-8'
+  );
+  writeFileSync(
+    path.join(outputDir, 'compare.md'),
+    buildCompareMarkdown(comparison),
+    'utf-8'
+  );
+}
+
+function buildSummaryMarkdown(
+  summary: GraphSummary,
+  violations: RuleViolation[],
+  broken: BrokenImport[],
+  dependencyIssues: DependencyIssue[],
+  deadExports: DeadExport[],
+  hotspots: RiskScore[],
+  projectRoot: string
+): string {
   const rel = (p: string) => path.relative(projectRoot, p);
   const lines: string[] = [];
 
@@ -122,15 +253,73 @@ function buildSummaryMarkdown(summary: GraphSummary, projectRoot: string): strin
   lines.push(`| Avg dependents per file | ${summary.avgDependentsPerFile.toFixed(1)} |`);
   lines.push(`| Max dependency depth | ${summary.maxDepth} |`);
   lines.push(`| Circular dependencies | ${summary.circularDependencies.length} |`);
-  lines.push(`| Orphan files | ${summary.orphanFiles.length} |`);
-  lines.push(`| God modules (20+ dependents) | ${summary.godModules.length} |`);
+  lines.push(`| Entry points | ${summary.entryPoints.length} |`);
+  lines.push(`| Unreachable files | ${summary.unreachableFiles.length} |`);
+  lines.push(`| Dead exports | ${deadExports.length} |`);
+  lines.push(`| God modules (${summary.thresholds.godModule}+ dependents) | ${summary.godModules.length} |`);
+  lines.push(`| Architecture violations | ${violations.length} |`);
+  lines.push(`| Broken imports | ${broken.length} |`);
+  lines.push(`| External packages | ${summary.externalPackages} |`);
+  lines.push(`| npm dependency issues | ${dependencyIssues.length} |`);
   lines.push('');
 
+  if (violations.length > 0) {
+    lines.push('## Architecture Violations');
+    lines.push('');
+    lines.push('Imports that break the rules in `whobreaks.config.json`.');
+    lines.push('');
+    for (const v of violations) {
+      lines.push(`- **${v.severity}** \`${rel(v.source)}:${v.line}\` → \`${rel(v.target)}\` — ${v.message} _(${v.rule})_`);
+    }
+    lines.push('');
+  }
+
+  if (broken.length > 0) {
+    lines.push('## Broken Imports');
+    lines.push('');
+    lines.push('Imports of missing files, aliases with no file behind them, and symbols the target does not export.');
+    lines.push('');
+    for (const b of broken) {
+      lines.push(`- \`${rel(b.source)}:${b.line}\` \`${b.rawSpecifier}\` — ${b.message}`);
+    }
+    lines.push('');
+  }
+
+  if (dependencyIssues.length > 0) {
+    lines.push('## npm Dependency Issues');
+    lines.push('');
+    lines.push('Packages imported without being declared in the nearest package.json, and runtime dependencies nothing imports.');
+    lines.push('');
+    for (const d of dependencyIssues) {
+      const location = d.file ? `\`${rel(d.file)}:${d.line}\`` : `\`${rel(d.manifest)}\``;
+      lines.push(`- **${d.kind}** ${location} \`${d.package}\` — ${d.message}`);
+    }
+    lines.push('');
+  }
+
   if (summary.circularDependencies.length > 0) {
     lines.push('## Circular Dependencies');
     lines.push('');
-    for (const { cycle } of summary.circularDependencies) {
-      lines.push(`- ${cycle.map(rel).join(' → ')}`);
+    lines.push('Each entry is one tangle (strongly connected component), largest first.');
+    lines.push('');
+    for (const { cycles, size, edges } of summary.circularDependencies) {
+      lines.push(`- **${size} files, ${edges.length} edges**`);
+      for (const cycle of cycles) {
+        lines.push(`  - ${cycle.map(rel).join(' → ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  if (hotspots.length > 0 && hotspots[0].score > 0) {
+    lines.push('## Risk Hotspots');
+    lines.push('');
+    lines.push('Composite risk (0–100) from transitive impact, git churn, authors, size, cycle membership and fan-out. Weights come from `risk.weights` in `whobreaks.config.json`.');
+    lines.push('');
+    lines.push('| File | Risk | Affected | Commits | Authors | Lines | In cycle | Imports |');
+    lines.push('|------|------|----------|---------|---------|-------|----------|---------|');
+    for (const { file, score, level, factors } of hotspots) {
+      lines.push(`| \`${rel(file)}\` | ${score} ${level} | ${factors.impact.value} | ${factors.churn.value} | ${factors.authors.value} | ${factors.lines.value} | ${factors.cycle.value ? 'yes' : 'no'} | ${factors.fanOut.value} |`);
     }
     lines.push('');
   }
@@ -138,7 +327,7 @@ function buildSummaryMarkdown(summary: GraphSummary, projectRoot: string): strin
   if (summary.godModules.length > 0) {
     lines.push('## God Modules');
     lines.push('');
-    lines.push('Files imported by 20+ other files — high coupling risk.');
+    lines.push(`Files imported by ${summary.thresholds.godModule}+ other files — high coupling risk.`);
     lines.push('');
     for (const { path: p, dependentCount } of summary.godModules) {
       lines.push(`- \`${rel(p)}\` — ${dependentCount} dependents`);
@@ -149,7 +338,7 @@ function buildSummaryMarkdown(summary: GraphSummary, projectRoot: string): strin
   if (summary.highImpactFiles.length > 0) {
     lines.push('## High-Impact Files');
     lines.push('');
-    lines.push('Changing these files has the widest transitive effect.');
+    lines.push(`Changing these files affects ${summary.thresholds.highImpact}+ files transitively.`);
     lines.push('');
     for (const { path: p, affectedCount } of summary.highImpactFiles.slice(0, 10)) {
       lines.push(`- \`${rel(p)}\` — ${affectedCount} files affected`);
@@ -157,16 +346,40 @@ function buildSummaryMarkdown(summary: GraphSummary, projectRoot: string): strin
     lines.push('');
   }
 
-  if (summary.orphanFiles.length > 0) {
-    lines.push('## Orphan Files');
+  if (summary.unreachableFiles.length > 0) {
+    lines.push('## Unreachable Files');
     lines.push('');
-    lines.push('Not imported by anything — dead code candidates.');
+    lines.push(summary.entryPoints.length > 0
+      ? 'Not reachable from any entry point through imports or re-exports — dead code candidates.'
+      : 'No entry points detected, so these are the files nothing imports.');
     lines.push('');
-    for (const p of summary.orphanFiles) {
+    for (const p of summary.unreachableFiles) {
       lines.push(`- \`${rel(p)}\``);
     }
     lines.push('');
   }
 
+  if (summary.entryPoints.length > 0) {
+    lines.push('## Entry Points');
+    lines.push('');
+    lines.push('Detected from package.json `main`/`bin`/`exports`/scripts, framework and test conventions, and `entryPoints` in `whobreaks.config.json`.');
+    lines.push('');
+    for (const { file, reason } of summary.entryPoints) {
+      lines.push(`- \`${rel(file)}\` — ${reason}`);
+    }
+    lines.push('');
+  }
+
+  if (deadExports.length > 0) {
+    lines.push('## Dead Exports');
+    lines.push('');
+    lines.push('Exports nothing imports, in files that are otherwise used. Files matching `entryPoints` in `whobreaks.config.json` are treated as public API.');
+    lines.push('');
+    for (const d of deadExports) {
+      lines.push(`- \`${rel(d.file)}:${d.line}\` \`${d.name}\` _(${d.isReExport ? 're-export' : d.kind})_`);
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
@@ -2,8 +2,18 @@ import { createServer, IncomingMessage, ServerResponse } from 'node:http';
 import * as path from 'node:path';
 import { readFileSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
-import type { DependencyGraph } from './types.js';
+import type { DependencyGraph, CoChangePair } from './types.js';
 import { getImpact, getSummary, serializeGraph } from './graph.js';
+import { getSymbolImpact, findDeadExports } from './symbols.js';
+import type { WhobreaksConfig } from './config.js';
+import { checkRules } from './rules.js';
+import { findBrokenImports } from './broken.js';
+import { detectEntryPoints } from './entries.js';
+import { getCommitHistory } from './git.js';
+import { analyzeCoChange, withCoChanged } from './cochange.js';
+import { getRiskScores } from './risk.js';
+import { getPackageImpact, checkPackageDependencies } from './externals.js';
+import { exportGraph, exportContentType, EXPORT_FORMATS, type ExportFormat } from './export.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -52,6 +62,7 @@ function totalEdges(graph: DependencyGraph): number {
 
 export function createApiServer(
   graphRef: { current: DependencyGraph },
+  config: WhobreaksConfig,
   port = 3001
 ): { listen: () => void; close: () => void } {
   const server = createServer((req: IncomingMessage, res: ServerResponse) => {
@@ -93,7 +104,118 @@ export function createApiServer(
     }
 
     if (route === '/summary') {
-      respond(res, getSummary(graph));
+      respond(res, getSummary(graph, detectEntryPoints(graph, config.entryPoints), config.thresholds));
+      return;
+    }
+
+    if (route === '/violations') {
+      const violations = checkRules(graph, config.rules);
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      respond(res, {
+        count: violations.length,
+        errors: violations.filter((v) => v.severity === 'error').length,
+        violations: violations.map((v) => ({
+          ...v,
+          source: rel(v.source),
+          target: rel(v.target),
+          ...(v.cycle ? { cycle: v.cycle.map(rel) } : {}),
+        })),
+      });
+      return;
+    }
+
+    if (route === '/broken') {
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      const broken = findBrokenImports(graph);
+      respond(res, {
+        count: broken.length,
+        broken: broken.map((b) => ({
+          ...b,
+          source: rel(b.source),
+          target: b.target ? rel(b.target) : null,
+        })),
+      });
+      return;
+    }
+
+    if (route === '/dead-exports') {
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      const entryPoints = detectEntryPoints(graph, config.entryPoints);
+      const { unreachableFiles } = getSummary(graph, entryPoints, config.thresholds);
+      const dead = findDeadExports(graph, entryPoints.map((e) => e.file), unreachableFiles);
+      respond(res, {
+        count: dead.length,
+        deadExports: dead.map((d) => ({ ...d, file: rel(d.file) })),
+      });
+      return;
+    }
+
+    if (route === '/packages') {
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      const packages = Array.from(graph.externals, ([name, importers]) => ({
+        name,
+        importers: Array.from(importers).map(rel).sort(),
+      })).sort((a, b) => b.importers.length - a.importers.length || a.name.localeCompare(b.name));
+      const issues = checkPackageDependencies(graph);
+      respond(res, {
+        count: packages.length,
+        packages,
+        issues: issues.map((d) => ({
+          ...d,
+          manifest: rel(d.manifest),
+          file: d.file ? rel(d.file) : null,
+        })),
+      });
+      return;
+    }
+
+    if (route === '/cochange') {
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      const report = analyzeCoChange(graph, getCommitHistory(graph.projectRoot));
+      const relPair = (p: CoChangePair) => ({ ...p, a: rel(p.a), b: rel(p.b) });
+      respond(res, {
+        commitsAnalyzed: report.commitsAnalyzed,
+        pairs: report.pairs.map(relPair),
+        hidden: report.hidden.map(relPair),
+      });
+      return;
+    }
+
+    if (route === '/risk') {
+      const scores = getRiskScores(graph, config);
+      const files = Array.from(scores.values())
+        .sort((a, b) => b.score - a.score)
+        .map((r) => ({ ...r, file: path.relative(graph.projectRoot, r.file) }));
+      respond(res, { count: files.length, files });
+      return;
+    }
+
+    if (route === '/export') {
+      const format = (url.searchParams.get('format') ?? 'json') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) { badRequest(res, `format must be one of ${EXPORT_FORMATS.join(', ')}`); return; }
+      const direction = url.searchParams.get('direction') ?? 'both';
+      if (direction !== 'up' && direction !== 'down' && direction !== 'both') {
+        badRequest(res, 'direction must be up, down or both');
+        return;
+      }
+
+      const focus = url.searchParams.get('focus');
+      const dir = url.searchParams.get('dir');
+      const depth = url.searchParams.get('depth');
+      const focusPath = focus && (path.isAbsolute(focus) ? focus : path.join(graph.projectRoot, focus));
+      if (focusPath && !graph.nodes.has(focusPath)) { notFound(res, `File not in graph: ${focus}`); return; }
+
+      const body = exportGraph(graph, {
+        format,
+        focus: focusPath || undefined,
+        depth: depth ? parseInt(depth, 10) : undefined,
+        direction,
+        dir: dir ? path.resolve(graph.projectRoot, dir) : undefined,
+        cyclesOnly: url.searchParams.get('cycles') === '1',
+        collapse: url.searchParams.get('collapse') === '1',
+      });
+      res.writeHead(200, { 'Content-Type': exportContentType(format), 'Access-Control-Allow-Origin': '*' });
+      res.end(body);
       return;
     }
 
@@ -131,7 +253,10 @@ export function createApiServer(
         return;
       }
 
-      const impact = getImpact(graph, absPath);
+      const staticImpact = getImpact(graph, absPath);
+      const impact = url.searchParams.get('cochange')
+        ? withCoChanged(staticImpact, analyzeCoChange(graph, getCommitHistory(graph.projectRoot)))
+        : staticImpact;
       const rel = (p: string) => path.relative(graph.projectRoot, p);
       respond(res, {
         file,
@@ -139,6 +264,55 @@ export function createApiServer(
         transitiveDependents: impact.transitiveDependents.map(rel),
         totalAffected: impact.totalAffected,
         criticalExports: impact.criticalExports,
+        owners: impact.owners,
+        teamsAffected: impact.teamsAffected,
+        affectedOwners: impact.affectedOwners.map((o) => ({ owner: o.owner, files: o.files.map(rel) })),
+        unownedFiles: impact.unownedFiles.map(rel),
+        ...(impact.coChanged ? { coChanged: impact.coChanged.map((c) => ({ ...c, file: rel(c.file) })) } : {}),
+      });
+      return;
+    }
+
+    if (route === '/impact/symbol') {
+      const file = url.searchParams.get('file');
+      const symbol = url.searchParams.get('symbol');
+      if (!file) { badRequest(res, 'Missing ?file= parameter'); return; }
+      if (!symbol) { badRequest(res, 'Missing ?symbol= parameter'); return; }
+
+      const absPath = path.isAbsolute(file) ? file : path.join(graph.projectRoot, file);
+      if (!graph.nodes.has(absPath)) {
+        notFound(res, `File not in graph: ${file}`);
+        return;
+      }
+
+      const impact = getSymbolImpact(graph, absPath, symbol);
+      if (!impact.exported) {
+        notFound(res, `No export named ${symbol} in ${file}`);
+        return;
+      }
+
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      respond(res, {
+        file,
+        symbol,
+        reExportedBy: impact.reExportedBy.map((r) => ({ file: rel(r.file), name: r.name })),
+        directConsumers: impact.directConsumers.map(rel),
+        transitiveDependents: impact.transitiveDependents.map(rel),
+        totalAffected: impact.totalAffected,
+      });
+      return;
+    }
+
+    if (route === '/impact/package') {
+      const name = url.searchParams.get('name');
+      if (!name) { badRequest(res, 'Missing ?name= parameter'); return; }
+
+      const impact = getPackageImpact(graph, name);
+      const rel = (p: string) => path.relative(graph.projectRoot, p);
+      respond(res, {
+        ...impact,
+        directImporters: impact.directImporters.map(rel),
+        transitiveDependents: impact.transitiveDependents.map(rel),
       });
       return;
     }
@@ -151,16 +325,18 @@ export function createApiServer(
       const node = graph.nodes.get(absPath);
       if (!node) { notFound(res, `File not in graph: ${file}`); return; }
 
+      const risk = getRiskScores(graph, config).get(absPath);
       respond(res, {
         ...node,
         relativePath: path.relative(graph.projectRoot, node.path),
         dependentCount: graph.dependents.get(absPath)?.size ?? 0,
         dependencyCount: graph.dependencies.get(absPath)?.size ?? 0,
+        risk: risk ? { ...risk, file: path.relative(graph.projectRoot, risk.file) } : null,
       });
       return;
     }
 
-    notFound(res, `Unknown route: ${route}. Available: /health /graph /summary /dependents /dependencies /impact /node`);
+    notFound(res, `Unknown route: ${route}. Available: /health /graph /summary /violations /broken /dead-exports /packages /dependents /dependencies /impact /impact/symbol /impact/package /cochange /risk /export /node`);
   });
 
   return {
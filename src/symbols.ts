@@ -0,0 +1,179 @@
+import type { DependencyGraph, SymbolImpact, DeadExport } from './types.js';
+import { collectDependents } from './graph.js';
+
+export interface SymbolRef {
+  file: string;
+  name: string;
+}
+
+export interface SymbolGraph {
+  consumers: Map<string, Set<string>>;
+  forwards: Map<string, SymbolRef[]>;
+  starForwards: Map<string, Set<string>>;
+}
+
+const WHOLE_MODULE = '*';
+
+function symbolKey(file: string, name: string): string {
+  return file + '#' + name;
+}
+
+function addToSet(map: Map<string, Set<string>>, key: string, value: string): void {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(value);
+}
+
+export function buildSymbolGraph(graph: DependencyGraph): SymbolGraph {
+  const consumers = new Map<string, Set<string>>();
+  const forwards = new Map<string, SymbolRef[]>();
+  const starForwards = new Map<string, Set<string>>();
+
+  for (const node of graph.nodes.values()) {
+    for (const imp of node.imports) {
+      if (!imp.target) continue;
+
+      if (imp.namespaceImport && imp.usedSymbols) {
+        for (const name of imp.usedSymbols) addToSet(consumers, symbolKey(imp.target, name), node.path);
+      } else if (imp.isDynamic || imp.namespaceImport) {
+        addToSet(consumers, symbolKey(imp.target, WHOLE_MODULE), node.path);
+      }
+
+      for (const symbol of imp.symbols) {
+        if (symbol === imp.namespaceImport) continue;
+        const name = symbol === imp.defaultImport ? 'default' : symbol;
+        addToSet(consumers, symbolKey(imp.target, name), node.path);
+      }
+    }
+
+    for (const exp of node.exports) {
+      if (!exp.isReExport || !exp.reExportTarget) continue;
+
+      if (exp.name === WHOLE_MODULE) {
+        addToSet(starForwards, exp.reExportTarget, node.path);
+        continue;
+      }
+
+      const key = symbolKey(exp.reExportTarget, exp.reExportName ?? exp.name);
+      const list = forwards.get(key) ?? [];
+      list.push({ file: node.path, name: exp.name });
+      forwards.set(key, list);
+    }
+  }
+
+  return { consumers, forwards, starForwards };
+}
+
+export function resolveSymbolAliases(
+  symbolGraph: SymbolGraph,
+  filePath: string,
+  exportName: string
+): SymbolRef[] {
+  const reached: SymbolRef[] = [{ file: filePath, name: exportName }];
+  const seen = new Set([symbolKey(filePath, exportName)]);
+
+  const visit = (ref: SymbolRef) => {
+    const key = symbolKey(ref.file, ref.name);
+    if (seen.has(key)) return;
+    seen.add(key);
+    reached.push(ref);
+  };
+
+  for (let i = 0; i < reached.length; i++) {
+    const { file, name } = reached[i];
+
+    for (const ref of symbolGraph.forwards.get(symbolKey(file, name)) ?? []) visit(ref);
+    for (const ref of symbolGraph.forwards.get(symbolKey(file, WHOLE_MODULE)) ?? []) visit(ref);
+
+    if (name === 'default') continue;
+    for (const barrel of symbolGraph.starForwards.get(file) ?? []) {
+      visit({ file: barrel, name });
+    }
+  }
+
+  return reached;
+}
+
+export function getSymbolImpact(
+  graph: DependencyGraph,
+  filePath: string,
+  exportName: string,
+  symbolGraph: SymbolGraph = buildSymbolGraph(graph)
+): SymbolImpact {
+  const node = graph.nodes.get(filePath);
+  const exported = node?.exports.some((e) => e.name === exportName) ?? false;
+
+  const aliases = resolveSymbolAliases(symbolGraph, filePath, exportName);
+
+  const direct = new Set<string>();
+  for (const { file, name } of aliases) {
+    for (const consumer of symbolGraph.consumers.get(symbolKey(file, name)) ?? []) {
+      direct.add(consumer);
+    }
+    for (const consumer of symbolGraph.consumers.get(symbolKey(file, WHOLE_MODULE)) ?? []) {
+      direct.add(consumer);
+    }
+  }
+  direct.delete(filePath);
+
+  const visited = collectDependents(graph, direct);
+  visited.delete(filePath);
+  const transitive = Array.from(visited).filter((f) => !direct.has(f));
+
+  return {
+    file: filePath,
+    symbol: exportName,
+    exported,
+    reExportedBy: aliases.slice(1),
+    directConsumers: Array.from(direct),
+    transitiveDependents: transitive,
+    totalAffected: direct.size + transitive.length,
+  };
+}
+
+export function findDeadExports(
+  graph: DependencyGraph,
+  entryFiles: Iterable<string> = [],
+  deadFiles: Iterable<string> = [],
+  symbolGraph: SymbolGraph = buildSymbolGraph(graph)
+): DeadExport[] {
+  const entries = new Set(entryFiles);
+  const dead = new Set(deadFiles);
+  const isConsumed = (file: string, name: string) => {
+    for (const key of [symbolKey(file, name), symbolKey(file, WHOLE_MODULE)]) {
+      for (const consumer of symbolGraph.consumers.get(key) ?? []) {
+        if (consumer !== file) return true;
+      }
+    }
+    return false;
+  };
+
+  const deadExports: DeadExport[] = [];
+  for (const node of graph.nodes.values()) {
+    if (entries.has(node.path) || dead.has(node.path)) continue;
+
+    const seen = new Set<string>();
+    for (const exp of node.exports) {
+      if (exp.name === WHOLE_MODULE || seen.has(exp.name)) continue;
+      seen.add(exp.name);
+      const aliases = resolveSymbolAliases(symbolGraph, node.path, exp.name);
+      const used = aliases.some(({ file, name }) =>
+        isConsumed(file, name) || entries.has(file)
+      );
+      if (used) continue;
+
+      deadExports.push({
+        file: node.path,
+        name: exp.name,
+        kind: exp.kind,
+        line: exp.line,
+        isReExport: exp.isReExport,
+      });
+    }
+  }
+
+  return deadExports.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
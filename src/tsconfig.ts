@@ -0,0 +1,248 @@
+import { readFileSync, readdirSync, existsSync, statSync } from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp, toPosixRelative } from './glob.js';
+
+export interface PathMapping {
+  pattern: string;
+  targets: string[];
+}
+
+export interface TsConfigProject {
+  configPath: string;
+  dir: string;
+  baseUrl: string | null;
+  paths: PathMapping[];
+  moduleSuffixes: string[];
+  rootDirs: string[];
+  include: string[];
+  exclude: string[];
+  files: string[];
+}
+
+interface RawTsConfig {
+  extends?: string | string[];
+  compilerOptions?: Record<string, unknown>;
+  include?: string[];
+  exclude?: string[];
+  files?: string[];
+  references?: { path: string }[];
+}
+
+interface MergedConfig {
+  options: Record<string, { value: unknown; dir: string }>;
+  include?: { value: string[]; dir: string };
+  exclude?: { value: string[]; dir: string };
+  files?: { value: string[]; dir: string };
+}
+
+const SKIP_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', 'out']);
+const DEFAULT_EXCLUDE = ['node_modules', 'bower_components', 'jspm_packages'];
+const MAX_EXTENDS_DEPTH = 32;
+
+export function parseJsonc(text: string): unknown {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      out += text.slice(start, i + 1);
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+      out += ' ';
+    } else {
+      out += c;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+function readRawConfig(configPath: string): RawTsConfig | null {
+  try {
+    return parseJsonc(readFileSync(configPath, 'utf-8')) as RawTsConfig;
+  } catch {
+    return null;
+  }
+}
+
+function resolvePackageConfig(specifier: string, fromDir: string): string | undefined {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const base = path.join(dir, 'node_modules', specifier);
+    const candidates = [base, base + '.json'];
+    try {
+      const pkg = JSON.parse(readFileSync(path.join(base, 'package.json'), 'utf-8'));
+      if (typeof pkg.tsconfig === 'string') candidates.push(path.join(base, pkg.tsconfig));
+    } catch {}
+    candidates.push(path.join(base, 'tsconfig.json'));
+
+    for (const candidate of candidates) {
+      if (existsSync(candidate) && statSync(candidate).isFile()) return candidate;
+    }
+    if (path.dirname(dir) === dir) return undefined;
+  }
+}
+
+function resolveExtends(specifier: string, fromDir: string): string | undefined {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    const base = path.resolve(fromDir, specifier);
+    if (existsSync(base) && statSync(base).isFile()) return base;
+    if (existsSync(base + '.json')) return base + '.json';
+    return undefined;
+  }
+  return resolvePackageConfig(specifier, fromDir);
+}
+
+function mergeConfig(configPath: string, depth = 0): MergedConfig | null {
+  const raw = readRawConfig(configPath);
+  if (!raw || depth > MAX_EXTENDS_DEPTH) return null;
+  const dir = path.dirname(configPath);
+
+  const merged: MergedConfig = { options: {} };
+  const bases = raw.extends === undefined ? [] : Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+  for (const specifier of bases) {
+    const basePath = resolveExtends(specifier, dir);
+    const base = basePath ? mergeConfig(basePath, depth + 1) : null;
+    if (!base) continue;
+    Object.assign(merged.options, base.options);
+    merged.include = base.include ?? merged.include;
+    merged.exclude = base.exclude ?? merged.exclude;
+    merged.files = base.files ?? merged.files;
+  }
+
+  for (const [key, value] of Object.entries(raw.compilerOptions ?? {})) {
+    merged.options[key] = { value, dir };
+  }
+  if (Array.isArray(raw.include)) merged.include = { value: raw.include, dir };
+  if (Array.isArray(raw.exclude)) merged.exclude = { value: raw.exclude, dir };
+  if (Array.isArray(raw.files)) merged.files = { value: raw.files, dir };
+
+  return merged;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function relativePatterns(projectRoot: string, entry: { value: string[]; dir: string }): string[] {
+  return entry.value.map((p) => toPosixRelative(projectRoot, path.resolve(entry.dir, p)));
+}
+
+function loadProject(projectRoot: string, configPath: string): TsConfigProject | null {
+  const merged = mergeConfig(configPath);
+  if (!merged) return null;
+
+  const option = (key: string) => merged.options[key];
+  const baseUrlOption = option('baseUrl');
+  const baseUrl = typeof baseUrlOption?.value === 'string'
+    ? path.resolve(baseUrlOption.dir, baseUrlOption.value)
+    : null;
+
+  const pathsOption = option('paths');
+  const pathsBase = baseUrl ?? pathsOption?.dir ?? path.dirname(configPath);
+  const paths: PathMapping[] = Object.entries((pathsOption?.value ?? {}) as Record<string, unknown>)
+    .map(([pattern, targets]) => ({
+      pattern,
+      targets: stringList(targets).map((t) => path.resolve(pathsBase, t)),
+    }));
+
+  const rootDirsOption = option('rootDirs');
+  const suffixes = stringList(option('moduleSuffixes')?.value);
+
+  return {
+    configPath,
+    dir: path.dirname(configPath),
+    baseUrl,
+    paths,
+    moduleSuffixes: suffixes.length > 0 ? suffixes : [''],
+    rootDirs: stringList(rootDirsOption?.value).map((d) => path.resolve(rootDirsOption!.dir, d)),
+    include: merged.include
+      ? relativePatterns(projectRoot, merged.include)
+      : merged.files ? [] : [toPosixRelative(projectRoot, path.dirname(configPath)) || '**'],
+    exclude: merged.exclude
+      ? relativePatterns(projectRoot, merged.exclude)
+      : DEFAULT_EXCLUDE.map((d) => toPosixRelative(projectRoot, path.join(path.dirname(configPath), d))),
+    files: merged.files
+      ? merged.files.value.map((f) => path.resolve(merged.files!.dir, f))
+      : [],
+  };
+}
+
+function findConfigFiles(projectRoot: string): string[] {
+  const found: string[] = [];
+  const walk = (dir: string) => {
+    let entries: import('node:fs').Dirent[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIP_DIRS.has(entry.name)) walk(path.join(dir, entry.name));
+      } else if (entry.name === 'tsconfig.json' || entry.name === 'jsconfig.json') {
+        found.push(path.join(dir, entry.name));
+      }
+    }
+  };
+  walk(projectRoot);
+  return found;
+}
+
+function referencePaths(configPath: string): string[] {
+  const raw = readRawConfig(configPath);
+  const dir = path.dirname(configPath);
+  return (raw?.references ?? [])
+    .filter((r) => typeof r?.path === 'string')
+    .map((r) => {
+      const target = path.resolve(dir, r.path);
+      return target.endsWith('.json') ? target : path.join(target, 'tsconfig.json');
+    });
+}
+
+export function loadTsConfigProjects(projectRoot: string): TsConfigProject[] {
+  const queue = findConfigFiles(projectRoot);
+  const seen = new Set(queue);
+  const projects: TsConfigProject[] = [];
+
+  for (let i = 0; i < queue.length; i++) {
+    const project = loadProject(projectRoot, queue[i]);
+    if (!project) continue;
+    projects.push(project);
+
+    for (const ref of referencePaths(queue[i])) {
+      if (seen.has(ref) || !existsSync(ref)) continue;
+      seen.add(ref);
+      queue.push(ref);
+    }
+  }
+
+  return projects.sort((a, b) => b.dir.length - a.dir.length);
+}
+
+function includesFile(project: TsConfigProject, filePath: string, relativePath: string): boolean {
+  if (project.files.includes(filePath)) return true;
+  return project.include.some((p) => globToRegExp(p).test(relativePath)) &&
+    !project.exclude.some((p) => globToRegExp(p).test(relativePath));
+}
+
+export function findOwningProject(
+  projects: TsConfigProject[],
+  projectRoot: string,
+  filePath: string
+): TsConfigProject | undefined {
+  const relativePath = toPosixRelative(projectRoot, filePath);
+  let nearest: TsConfigProject | undefined;
+
+  for (const project of projects) {
+    if (!filePath.startsWith(project.dir + path.sep)) continue;
+    if (includesFile(project, filePath, relativePath)) return project;
+    nearest ??= project;
+  }
+  return nearest;
+}
@@ -6,6 +6,12 @@ export interface ImportEdge {
   isTypeOnly: boolean;
   isDynamic: boolean;
   line: number;
+  defaultImport?: string;
+  namespaceImport?: string;
+  usedSymbols?: string[];
+  unresolved?: 'missing-file' | 'unmatched-alias';
+  external?: string;
+  workspacePackage?: string;
 }
 
 export type ExportKind =
@@ -24,6 +30,9 @@ export interface ExportInfo {
   line: number;
   isReExport: boolean;
   reExportSource?: string;
+  reExportTarget?: string;
+  reExportName?: string;
+  isCommonJs?: boolean;
 }
 
 export interface FileNode {
@@ -35,46 +44,304 @@ export interface FileNode {
   hash: string;
   sizeBytes: number;
   linesOfCode: number;
+  owners?: string[];
 }
 
 export interface DependencyGraph {
   nodes: Map<string, FileNode>;
   dependents: Map<string, Set<string>>;
   dependencies: Map<string, Set<string>>;
+  externals: Map<string, Set<string>>;
   projectRoot: string;
   lastUpdate: number;
+  version: number;
+}
+
+export interface OwnerImpact {
+  owner: string;
+  files: string[];
 }
 
 export interface ImpactAnalysis {
   file: string;
+  owners: string[];
   directDependents: string[];
   transitiveDependents: string[];
   totalAffected: number;
   criticalExports: string[];
+  affectedOwners: OwnerImpact[];
+  teamsAffected: number;
+  unownedFiles: string[];
+  coChanged?: CoChangedFile[];
+}
+
+export interface PackageImpact {
+  name: string;
+  symbols: string[];
+  directImporters: string[];
+  transitiveDependents: string[];
+  totalAffected: number;
+}
+
+export interface SymbolImpact {
+  file: string;
+  symbol: string;
+  exported: boolean;
+  reExportedBy: Array<{ file: string; name: string }>;
+  directConsumers: string[];
+  transitiveDependents: string[];
+  totalAffected: number;
+}
+
+export interface ChangedFileImpact {
+  file: string;
+  directDependents: number;
+  totalAffected: number;
+  criticalExports: string[];
+}
+
+export interface AffectedFile {
+  file: string;
+  distance: number;
+  changedBy: string[];
+}
+
+export interface DiffImpact {
+  baseRef: string | null;
+  changedFiles: ChangedFileImpact[];
+  unanalyzedFiles: string[];
+  affectedFiles: AffectedFile[];
+  totalAffected: number;
+}
+
+export interface AffectedTests {
+  changedFiles: string[];
+  unanalyzedFiles: string[];
+  tests: AffectedFile[];
+}
+
+export interface CoChangePair {
+  a: string;
+  b: string;
+  support: number;
+  confidence: number;
+  hasImportPath: boolean;
+}
+
+export interface CoChangeReport {
+  commitsAnalyzed: number;
+  pairs: CoChangePair[];
+  hidden: CoChangePair[];
+}
+
+export interface CoChangedFile {
+  file: string;
+  support: number;
+  confidence: number;
+}
+
+export interface GraphEdgeRef {
+  source: string;
+  target: string;
+}
+
+export interface CycleChange {
+  before: string[];
+  after: string[];
+}
+
+export interface FileMetricChange {
+  file: string;
+  status: 'new' | 'resolved' | 'changed';
+  before: number;
+  after: number;
+}
+
+export interface RemovedExport {
+  file: string;
+  name: string;
+  importers: Array<{ file: string; line: number }>;
+}
+
+export interface GraphComparison {
+  before: string;
+  after: string;
+  totals: {
+    files: { before: number; after: number };
+    edges: { before: number; after: number };
+    cycles: { before: number; after: number };
+  };
+  addedFiles: string[];
+  removedFiles: string[];
+  addedEdges: GraphEdgeRef[];
+  removedEdges: GraphEdgeRef[];
+  newCycles: string[][];
+  resolvedCycles: string[][];
+  changedCycles: CycleChange[];
+  godModules: FileMetricChange[];
+  highImpactFiles: FileMetricChange[];
+  removedExports: RemovedExport[];
+}
+
+export type RuleType = 'forbidden' | 'allowed' | 'no-cycles';
+
+export interface RuleViolation {
+  rule: string;
+  type: RuleType;
+  severity: 'error' | 'warning';
+  source: string;
+  target: string;
+  line: number;
+  rawSpecifier: string;
+  message: string;
+  cycle?: string[];
 }
 
 export interface CircularDependency {
   cycle: string[];
+  files: string[];
+  edges: Array<{ source: string; target: string }>;
+  cycles: string[][];
+  size: number;
+}
+
+export interface CycleBreakSuggestion {
+  source: string;
+  target: string;
+  weight: number;
+  imports: Array<{ line: number; rawSpecifier: string; symbols: string[]; isTypeOnly: boolean }>;
+  hint: string;
+}
+
+export interface CycleBreakPlan {
+  files: string[];
+  size: number;
+  cuts: CycleBreakSuggestion[];
+  totalWeight: number;
+}
+
+export interface EntryPoint {
+  file: string;
+  reason: string;
 }
 
 export interface GraphSummary {
   totalFiles: number;
   totalEdges: number;
+  externalPackages: number;
   avgDependentsPerFile: number;
   maxDependents: number;
   maxDependentsFile: string;
   avgDepth: number;
   maxDepth: number;
   maxDepthPath: string[];
-  orphanFiles: string[];
+  entryPoints: EntryPoint[];
+  unreachableFiles: string[];
+  thresholds: { godModule: number; highImpact: number };
   godModules: Array<{ path: string; dependentCount: number }>;
   circularDependencies: CircularDependency[];
   highImpactFiles: Array<{ path: string; affectedCount: number }>;
 }
 
+export type RiskFactorName = 'impact' | 'churn' | 'authors' | 'lines' | 'cycle' | 'fanOut';
+
+export interface RiskFactor {
+  value: number;
+  normalized: number;
+  weight: number;
+  contribution: number;
+}
+
+export interface RiskScore {
+  file: string;
+  score: number;
+  level: 'HIGH' | 'MEDIUM' | 'LOW';
+  factors: Record<RiskFactorName, RiskFactor>;
+}
+
+export type BudgetName = 'maxCycles' | 'maxDependents' | 'maxDepth' | 'maxImpact' | 'noNewOrphans' | 'rule';
+
+export interface BudgetFailure {
+  budget: BudgetName;
+  key: string;
+  file: string | null;
+  actual: number;
+  limit: number;
+  message: string;
+  baseline: number | null;
+}
+
+export interface CheckResult {
+  passed: boolean;
+  baselineFile: string | null;
+  failures: BudgetFailure[];
+  regressions: BudgetFailure[];
+  fixed: string[];
+}
+
+export interface DeadExport {
+  file: string;
+  name: string;
+  kind: ExportKind;
+  line: number;
+  isReExport: boolean;
+}
+
+export type BrokenImportKind = 'missing-file' | 'unmatched-alias' | 'missing-export';
+
+export interface BrokenImport {
+  kind: BrokenImportKind;
+  source: string;
+  line: number;
+  rawSpecifier: string;
+  target: string | null;
+  symbol?: string;
+  message: string;
+}
+
+export type DependencyIssueKind = 'unused' | 'undeclared';
+
+export interface DependencyIssue {
+  kind: DependencyIssueKind;
+  package: string;
+  manifest: string;
+  file: string | null;
+  line: number | null;
+  message: string;
+}
+
+export type AnalyzerDisagreementKind =
+  | 'missing-import'
+  | 'extra-import'
+  | 'import-target'
+  | 'import-symbols'
+  | 'type-only'
+  | 'missing-export'
+  | 'extra-export'
+  | 'export-kind';
+
+export interface AnalyzerDisagreement {
+  file: string;
+  kind: AnalyzerDisagreementKind;
+  line: number;
+  subject: string;
+  regex: string | null;
+  precise: string | null;
+}
+
+export interface AnalyzerComparison {
+  totalFiles: number;
+  agreeingFiles: number;
+  disagreements: AnalyzerDisagreement[];
+  byKind: Partial<Record<AnalyzerDisagreementKind, number>>;
+}
+
 export interface ScanOptions {
   projectRoot: string;
   include?: string[];
   exclude?: string[];
   maxFiles?: number;
+  cache?: boolean;
+  workers?: number;
+  precise?: boolean;
 }
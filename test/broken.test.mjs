@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { scanProject } from '../dist/scanner.js';
+
+async function scanFixture(files) {
+  const root = mkdtempSync(path.join(tmpdir(), 'whobreaks-broken-'));
+  try {
+    for (const [rel, content] of Object.entries(files)) {
+      const abs = path.join(root, rel);
+      mkdirSync(path.dirname(abs), { recursive: true });
+      writeFileSync(abs, typeof content === 'string' ? content : JSON.stringify(content));
+    }
+    const result = await scanProject({ projectRoot: root, cache: false });
+    const rel = (p) => path.relative(root, p);
+    return {
+      broken: result.broken.map((b) => ({ kind: b.kind, source: rel(b.source), symbol: b.symbol })),
+      issues: result.dependencyIssues.map((d) => ({ kind: d.kind, package: d.package })),
+      externals: [...result.graph.externals.keys()],
+    };
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+test('export forms the regex parser must name are not reported as missing', async () => {
+  const { broken } = await scanFixture({
+    'src/object.ts': 'export default { a: 1 };\n',
+    'src/arrow.ts': 'export default () => 1;\n',
+    'src/anon.ts': 'export default function () {}\n',
+    'src/enum.ts': 'export const enum Color { Red }\n',
+    'src/ns.ts': 'export namespace NS { export const x = 1; }\n',
+    'src/destructured.ts': 'export const { alpha, beta: renamed, ...rest } = { alpha: 1, beta: 2, gamma: 3 };\nexport const [first, [second]] = [1, [2]];\n',
+    'src/main.ts': [
+      "import obj from './object';",
+      "import arrow from './arrow';",
+      "import anon from './anon';",
+      "import { Color } from './enum';",
+      "import { NS } from './ns';",
+      "import { alpha, renamed, rest, first, second } from './destructured';",
+      'console.log(obj, arrow, anon, Color, NS, alpha, renamed, rest, first, second);',
+      '',
+    ].join('\n'),
+  });
+  assert.deepEqual(broken, []);
+});
+
+test('imports of names the target does not export are reported', async () => {
+  const { broken } = await scanFixture({
+    'src/lib.ts': 'export const a = 1;\n',
+    'src/main.ts': "import missingDefault, { a, b } from './lib';\nconsole.log(missingDefault, a, b);\n",
+  });
+  assert.deepEqual(broken, [
+    { kind: 'missing-export', source: 'src/main.ts', symbol: 'default' },
+    { kind: 'missing-export', source: 'src/main.ts', symbol: 'b' },
+  ]);
+});
+
+test('installed packages resolve as external when a catch-all paths entry misses', async () => {
+  const { broken, issues, externals } = await scanFixture({
+    'package.json': { name: 'fx', dependencies: { lodash: '*' } },
+    'tsconfig.json': { compilerOptions: { baseUrl: '.', paths: { '*': ['types/*'] } } },
+    'node_modules/lodash/package.json': { name: 'lodash', main: 'index.js' },
+    'src/main.ts': "import _ from 'lodash';\nimport gone from '@/gone';\nconsole.log(_, gone);\n",
+  });
+  assert.deepEqual(externals, ['lodash']);
+  assert.deepEqual(issues, []);
+  assert.deepEqual(broken, [{ kind: 'unmatched-alias', source: 'src/main.ts', symbol: undefined }]);
+});